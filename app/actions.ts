@@ -0,0 +1,73 @@
+// app/actions.ts
+"use server";
+
+import { cookies, headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { auditSource } from "@/lib/audit";
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_SECONDS,
+  isAdminSession,
+  mintAdminSession,
+  secretMatches,
+} from "@/lib/auth";
+import {
+  CleanupInProgressError,
+  DEFAULT_LIMIT,
+  DEFAULT_MINUTES,
+  startCleanup,
+} from "@/lib/cleanup";
+
+// Server actions behind the dashboard forms in app/page.tsx.
+
+export async function login(form: FormData) {
+  const secret = process.env.ADMIN_SECRET;
+  const given = String(form.get("secret") || "");
+  if (!secret || !given || !secretMatches(given, secret)) {
+    redirect("/?error=invalid_secret");
+  }
+
+  (await cookies()).set(ADMIN_SESSION_COOKIE, mintAdminSession(secret), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/",
+    maxAge: ADMIN_SESSION_TTL_SECONDS,
+  });
+  redirect("/");
+}
+
+export async function logout() {
+  (await cookies()).delete(ADMIN_SESSION_COOKIE);
+  redirect("/");
+}
+
+/** Runs cleanup like the cron does; the result shows up in the recent runs table. */
+export async function triggerCleanup(form: FormData) {
+  const jar = await cookies();
+  if (!isAdminSession(jar.get(ADMIN_SESSION_COOKIE)?.value)) redirect("/");
+
+  const minutes = Number(form.get("minutes") || DEFAULT_MINUTES);
+  const limit = Number(form.get("limit") || DEFAULT_LIMIT);
+  if (!(minutes > 0) || !Number.isInteger(limit) || limit <= 0) {
+    redirect("/?error=invalid_cleanup_params");
+  }
+
+  let notice: string;
+  try {
+    const run = await startCleanup({
+      minutes,
+      limit,
+      dryRun: form.get("dry_run") === "1",
+      trigger: "dashboard",
+      source: auditSource({ headers: await headers() }, "dashboard"),
+    });
+    notice = run.dry_run
+      ? `Dry run: ${run.would_delete} of ${run.found} would be deleted`
+      : `Deleted ${run.deleted} of ${run.found}`;
+  } catch (err: unknown) {
+    if (!(err instanceof CleanupInProgressError)) throw err;
+    notice = "A cleanup run is already in progress";
+  }
+  redirect(`/?notice=${encodeURIComponent(notice)}`);
+}
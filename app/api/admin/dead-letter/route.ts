@@ -0,0 +1,102 @@
+// app/api/admin/dead-letter/route.ts
+import { NextResponse } from "next/server";
+import { adminAuditSource, recordAudit } from "@/lib/audit";
+import { requireAdmin } from "@/lib/auth";
+import { instrumentRoute } from "@/lib/instrument";
+import {
+  listDeadLetters,
+  requeueDeadLetter,
+  type UploadRecord,
+} from "@/lib/uploadStore";
+
+// Uploads cleanup gave up deleting on Vimeo (see lib/cleanup.ts).
+//   GET  ?limit=&offset=                    list them, oldest first
+//   POST { pending_tokens: [...] }          put them back in the cleanup queue
+// Admin only (Authorization: Bearer <ADMIN_SECRET>); no CORS.
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+function summary(rec: UploadRecord) {
+  return {
+    pending_token: rec.pending_token,
+    video_id: rec.video_id,
+    profile: rec.profile ?? null,
+    state: rec.state,
+    created_at: rec.created_at,
+    dead_lettered_at: rec.dead_lettered_at ?? null,
+    delete_attempts: rec.delete_attempts ?? 0,
+    last_delete_error: rec.last_delete_error ?? null,
+    last_delete_attempt_at: rec.last_delete_attempt_at ?? null,
+  };
+}
+
+async function handleGet(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const url = new URL(req.url);
+  const limit = Number(url.searchParams.get("limit") || DEFAULT_LIMIT);
+  const offset = Number(url.searchParams.get("offset") || 0);
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: "Invalid offset" }, { status: 400 });
+  }
+
+  const { total, records } = await listDeadLetters({ offset, count: limit });
+  return NextResponse.json({
+    ok: true,
+    total,
+    offset,
+    limit,
+    items: records.map(summary),
+  });
+}
+
+async function handlePost(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const body = (await req.json().catch(() => null)) as {
+    pending_token?: unknown;
+    pending_tokens?: unknown;
+  } | null;
+  const raw = body?.pending_tokens ?? (body?.pending_token ? [body.pending_token] : null);
+  if (
+    !Array.isArray(raw) ||
+    !raw.length ||
+    raw.length > MAX_LIMIT ||
+    !raw.every((t) => typeof t === "string" && t)
+  ) {
+    return NextResponse.json(
+      { error: "Expected pending_token or a non-empty pending_tokens array" },
+      { status: 400 }
+    );
+  }
+
+  const source = adminAuditSource(req);
+  const results = [];
+  for (const pending_token of raw as string[]) {
+    const rec = await requeueDeadLetter(pending_token);
+    results.push({ pending_token, requeued: !!rec });
+    if (rec) {
+      await recordAudit("dead_letter.requeue", source, {
+        pending_token,
+        video_id: rec.video_id,
+      });
+    }
+  }
+
+  return NextResponse.json({
+    ok: true,
+    requeued: results.filter((r) => r.requeued).length,
+    results,
+  });
+}
+
+export const GET = instrumentRoute("/api/admin/dead-letter", handleGet);
+export const POST = instrumentRoute("/api/admin/dead-letter", handlePost);
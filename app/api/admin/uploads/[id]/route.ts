@@ -0,0 +1,267 @@
+// app/api/admin/uploads/[id]/route.ts
+import { NextResponse } from "next/server";
+import { adminAuditSource, recordAudit } from "@/lib/audit";
+import { requireAdmin } from "@/lib/auth";
+import { instrumentRoute } from "@/lib/instrument";
+import { emitWebhook } from "@/lib/outgoingWebhooks";
+import { vimeoForRecord } from "@/lib/profiles";
+import { restoreFromQuarantine } from "@/lib/quarantine";
+import {
+  confirmPendingUpload,
+  findUploadByVideoId,
+  holdUpload,
+  markDeleted,
+  readUpload,
+  type UploadRecord,
+} from "@/lib/uploadStore";
+import { vimeoErrorResponse } from "@/lib/vimeoErrors";
+
+// One upload, looked up by pending_token or by Vimeo video_id.
+//   GET                                              the full record
+//   POST { action: "confirm" }                       confirm it as if the form had
+//                                                    (restoring it from quarantine first)
+//   POST { action: "delete", skip_vimeo?: true }     delete on Vimeo, then mark deleted
+//   POST { action: "extend", minutes: 1440 }         keep cleanup away for that long
+//   POST { action: "restore" }                       take it out of quarantine
+// Admin only (Authorization: Bearer <ADMIN_SECRET>); no CORS.
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+const MAX_EXTEND_MINUTES = 60 * 24 * 365;
+
+async function findUpload(id: string) {
+  return (await readUpload(id)) ?? (await findUploadByVideoId(id));
+}
+
+/** restoreFromQuarantine, with refusals and Vimeo errors turned into responses. */
+async function restore(rec: UploadRecord) {
+  try {
+    const result = await restoreFromQuarantine(rec, { note: "admin" });
+    if (result.ok) return { result, denied: null };
+
+    const status =
+      result.reason === "vimeo_failed"
+        ? 502
+        : result.reason === "not_found"
+          ? 404
+          : 409;
+    return {
+      result: null,
+      denied: NextResponse.json(
+        { error: "Cannot restore upload", ...result },
+        { status }
+      ),
+    };
+  } catch (err: unknown) {
+    const mapped = vimeoErrorResponse(err);
+    if (!mapped) throw err;
+    return {
+      result: null,
+      denied: NextResponse.json(
+        { ...mapped.body, message: "Vimeo restore failed" },
+        { status: mapped.status, headers: mapped.headers }
+      ),
+    };
+  }
+}
+
+async function handleGet(req: Request, { params }: Ctx) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const rec = await findUpload(id);
+  if (!rec) {
+    return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true, upload: rec });
+}
+
+async function handlePost(req: Request, { params }: Ctx) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as {
+    action?: unknown;
+    minutes?: unknown;
+    skip_vimeo?: unknown;
+  } | null;
+
+  const rec = await findUpload(id);
+  if (!rec) {
+    return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+  }
+  const { pending_token, video_id } = rec;
+  const now = new Date().toISOString();
+  const source = adminAuditSource(req);
+
+  switch (body?.action) {
+    case "confirm": {
+      if (rec.state === "quarantined") {
+        const restored = await restore(rec);
+        if (restored.denied) return restored.denied;
+        await recordAudit("upload.restore", source, {
+          pending_token,
+          video_id,
+          detail: { folder_id: restored.result.folder_id },
+        });
+      }
+
+      const result = await confirmPendingUpload({
+        pending_token,
+        video_id: rec.video_id,
+        confirmed_at: now,
+      });
+      if (!result.ok) {
+        return NextResponse.json(
+          { error: "Cannot confirm upload", ...result },
+          { status: result.reason === "illegal_state" ? 409 : 404 }
+        );
+      }
+      const upload = await readUpload(pending_token);
+      if (!result.already_confirmed) {
+        await recordAudit("upload.force_confirm", source, {
+          pending_token,
+          video_id,
+        });
+        if (upload) await emitWebhook("upload.confirmed", upload, { admin: true });
+      }
+      return NextResponse.json({
+        ok: true,
+        action: "confirm",
+        already_confirmed: !!result.already_confirmed,
+        upload,
+      });
+    }
+
+    case "delete": {
+      if (rec.state === "deleted") {
+        return NextResponse.json({
+          ok: true,
+          action: "delete",
+          already_deleted: true,
+          upload: rec,
+        });
+      }
+
+      let vimeo_status: number | null = null;
+      if (body.skip_vimeo !== true) {
+        const vimeo = vimeoForRecord(rec);
+        if (!vimeo) {
+          return NextResponse.json(
+            { error: "Unknown upload profile", profile: rec.profile },
+            { status: 409 }
+          );
+        }
+        try {
+          const del = await vimeo.deleteVideo(rec.video_id);
+          vimeo_status = del.status;
+          if (!del.ok) {
+            return NextResponse.json(
+              { error: "Vimeo delete failed", vimeo_status, details: del.body },
+              { status: 502 }
+            );
+          }
+        } catch (err: unknown) {
+          const mapped = vimeoErrorResponse(err);
+          if (!mapped) throw err;
+          return NextResponse.json(
+            { ...mapped.body, message: "Vimeo delete failed" },
+            { status: mapped.status, headers: mapped.headers }
+          );
+        }
+      }
+
+      await markDeleted(pending_token, now, "admin");
+      await recordAudit("upload.force_delete", source, {
+        pending_token,
+        video_id,
+        detail: { skip_vimeo: body.skip_vimeo === true, vimeo_status },
+      });
+      const upload = await readUpload(pending_token);
+      if (upload) {
+        await emitWebhook("upload.deleted", upload, { reason: "admin" });
+      }
+      return NextResponse.json({
+        ok: true,
+        action: "delete",
+        vimeo_status,
+        upload,
+      });
+    }
+
+    case "extend": {
+      const minutes = Number(body.minutes);
+      if (
+        !Number.isFinite(minutes) ||
+        minutes <= 0 ||
+        minutes > MAX_EXTEND_MINUTES
+      ) {
+        return NextResponse.json(
+          { error: `minutes must be between 0 and ${MAX_EXTEND_MINUTES}` },
+          { status: 400 }
+        );
+      }
+      if (rec.state === "deleted") {
+        return NextResponse.json(
+          { error: "Upload already deleted" },
+          { status: 409 }
+        );
+      }
+
+      const until = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+      const upload = await holdUpload(pending_token, until);
+      if (!upload) {
+        return NextResponse.json(
+          { error: "Upload not found" },
+          { status: 404 }
+        );
+      }
+      await recordAudit("upload.hold", source, {
+        pending_token,
+        video_id,
+        detail: { minutes, cleanup_after: until },
+      });
+      return NextResponse.json({
+        ok: true,
+        action: "extend",
+        cleanup_after: until,
+        upload,
+      });
+    }
+
+    case "restore": {
+      const restored = await restore(rec);
+      if (restored.denied) return restored.denied;
+      await recordAudit("upload.restore", source, {
+        pending_token,
+        video_id,
+        detail: {
+          folder_id: restored.result.folder_id,
+          state: restored.result.record.state,
+        },
+      });
+      return NextResponse.json({
+        ok: true,
+        action: "restore",
+        folder_id: restored.result.folder_id,
+        upload: restored.result.record,
+      });
+    }
+
+    default:
+      return NextResponse.json(
+        {
+          error:
+            'Expected action "confirm", "delete", "extend" or "restore"',
+        },
+        { status: 400 }
+      );
+  }
+}
+
+export const GET = instrumentRoute("/api/admin/uploads/[id]", handleGet);
+export const POST = instrumentRoute("/api/admin/uploads/[id]", handlePost);
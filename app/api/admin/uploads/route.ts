@@ -0,0 +1,98 @@
+// app/api/admin/uploads/route.ts
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { instrumentRoute } from "@/lib/instrument";
+import { isUploadState, UPLOAD_STATES } from "@/lib/uploadLifecycle";
+import { listUploads, type UploadRecord } from "@/lib/uploadStore";
+
+// GET /api/admin/uploads?state=created,uploading&older_than_minutes=60&limit=50&offset=0
+// Newest first. `state` takes a comma-separated list; `older_than_minutes` /
+// `newer_than_minutes` bound created_at; `email` / `form_id` find uploads
+// confirmed with that form submission. Pass `next_offset` back as `offset`
+// for the next page. Admin only (Authorization: Bearer <ADMIN_SECRET>).
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+type UploadSummary = Omit<UploadRecord, "transitions" | "upload_link"> & {
+  transition_count: number;
+};
+
+/** The list view leaves out the transition log and Vimeo's upload link. */
+function uploadSummary(rec: UploadRecord): UploadSummary {
+  const summary: UploadSummary & Partial<UploadRecord> = {
+    ...rec,
+    transition_count: rec.transitions.length,
+  };
+  delete summary.transitions;
+  delete summary.upload_link;
+  return summary;
+}
+
+function minutesAgo(raw: string | null) {
+  if (raw == null) return { ok: true as const, iso: undefined };
+  const minutes = Number(raw);
+  if (!Number.isFinite(minutes) || minutes < 0) return { ok: false as const };
+  return {
+    ok: true as const,
+    iso: new Date(Date.now() - minutes * 60 * 1000).toISOString(),
+  };
+}
+
+async function handleGet(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const url = new URL(req.url);
+
+  const states = (url.searchParams.get("state") || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const unknown = states.filter((s) => !isUploadState(s));
+  if (unknown.length) {
+    return NextResponse.json(
+      { error: "Invalid state", invalid: unknown, allowed: UPLOAD_STATES },
+      { status: 400 }
+    );
+  }
+
+  const olderThan = minutesAgo(url.searchParams.get("older_than_minutes"));
+  const newerThan = minutesAgo(url.searchParams.get("newer_than_minutes"));
+  if (!olderThan.ok || !newerThan.ok) {
+    return NextResponse.json(
+      { error: "Invalid older_than_minutes/newer_than_minutes" },
+      { status: 400 }
+    );
+  }
+
+  const limit = Number(url.searchParams.get("limit") || DEFAULT_LIMIT);
+  const offset = Number(url.searchParams.get("offset") || 0);
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: "Invalid offset" }, { status: 400 });
+  }
+
+  const { records, next_offset } = await listUploads({
+    states: states.filter(isUploadState),
+    created_before: olderThan.iso,
+    created_after: newerThan.iso,
+    email: url.searchParams.get("email") || undefined,
+    form_id: url.searchParams.get("form_id") || undefined,
+    offset,
+    limit,
+  });
+
+  return NextResponse.json({
+    ok: true,
+    count: records.length,
+    next_offset,
+    items: records.map(uploadSummary),
+  });
+}
+
+export const GET = instrumentRoute("/api/admin/uploads", handleGet);
@@ -0,0 +1,30 @@
+// app/api/health/route.ts
+import { NextResponse } from "next/server";
+import { requireHealthReader } from "@/lib/auth";
+import { checkHealth } from "@/lib/health";
+import { instrumentRoute } from "@/lib/instrument";
+
+// GET /api/health — readiness for deploy checks and uptime monitors.
+// 200 when the upload store, required env and every profile's Vimeo token and
+// folder check out, 503 otherwise. Anyone gets just { ok }; a caller with
+// `Authorization: Bearer <HEALTH_SECRET or ADMIN_SECRET>` gets the full report
+// saying which part failed (see lib/health.ts), since that names profiles,
+// folders, token scopes and missing settings.
+
+export const dynamic = "force-dynamic";
+
+async function handleGet(req: Request) {
+  const detailed = req.headers.has("authorization");
+  if (detailed) {
+    const denied = requireHealthReader(req);
+    if (denied) return denied;
+  }
+
+  const report = await checkHealth();
+  return NextResponse.json(detailed ? report : { ok: report.ok }, {
+    status: report.ok ? 200 : 503,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
+
+export const GET = instrumentRoute("/api/health", handleGet);
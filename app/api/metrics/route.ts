@@ -0,0 +1,23 @@
+// app/api/metrics/route.ts
+import { requireMetricsReader } from "@/lib/auth";
+import { instrumentRoute } from "@/lib/instrument";
+import { renderMetrics } from "@/lib/metrics";
+
+// GET /api/metrics — Prometheus text format (see lib/metrics.ts).
+// Authorization: Bearer <METRICS_SECRET>, or <ADMIN_SECRET> when that's unset.
+
+export const dynamic = "force-dynamic";
+
+async function handleGet(req: Request) {
+  const denied = requireMetricsReader(req);
+  if (denied) return denied;
+
+  return new Response(await renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+export const GET = instrumentRoute("/api/metrics", handleGet);
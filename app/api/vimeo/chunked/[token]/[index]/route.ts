@@ -0,0 +1,135 @@
+// app/api/vimeo/chunked/[token]/[index]/route.ts
+import { NextResponse } from "next/server";
+import {
+  expectedChunkLength,
+  parseChecksum,
+  readChunkedUpload,
+  receivedChunks,
+  saveChunk,
+  sha256Hex,
+} from "@/lib/chunkedUpload";
+import { corsPolicy } from "@/lib/cors";
+import { instrumentRoute } from "@/lib/instrument";
+import { profileOriginPatterns } from "@/lib/profiles";
+
+// PUT /api/vimeo/chunked/<pending_token>/<index>
+// One chunk of a server-side chunked upload, numbered from 0. Every chunk but
+// the last is exactly `chunk_size` bytes (from create-upload), and must come
+// with its SHA-256: `X-Chunk-Checksum: sha256=<hex>`. Re-sending a chunk
+// replaces it.
+
+export const dynamic = "force-dynamic";
+
+const CHECKSUM_HEADER = "X-Chunk-Checksum";
+
+type Ctx = { params: Promise<{ token: string; index: string }> };
+
+const cors = corsPolicy({
+  methods: ["PUT"],
+  allowHeaders: ["Content-Type", CHECKSUM_HEADER, "X-Requested-With"],
+  extraOrigins: profileOriginPatterns,
+});
+
+async function handleOptions(req: Request) {
+  return cors.preflight(req);
+}
+
+async function handlePut(req: Request, ctx: Ctx) {
+  const blocked = cors.reject(req);
+  if (blocked) return blocked;
+
+  const headers = cors.headers(req);
+  const { token, index: rawIndex } = await ctx.params;
+
+  const rec = await readChunkedUpload(token);
+  if (!rec) {
+    return NextResponse.json(
+      { error: "Unknown upload" },
+      { status: 404, headers }
+    );
+  }
+  if (rec.state === "deleted" || rec.state === "failed") {
+    return NextResponse.json(
+      { error: `Upload is ${rec.state}` },
+      { status: 410, headers }
+    );
+  }
+  if (rec.chunked.completed_at) {
+    return NextResponse.json(
+      { error: "Upload already completed" },
+      { status: 409, headers }
+    );
+  }
+
+  const index = Number(rawIndex);
+  if (
+    !Number.isInteger(index) ||
+    index < 0 ||
+    index >= rec.chunked.total_chunks
+  ) {
+    return NextResponse.json(
+      { error: "Invalid chunk index", total_chunks: rec.chunked.total_chunks },
+      { status: 400, headers }
+    );
+  }
+
+  const checksum = parseChecksum(req.headers.get(CHECKSUM_HEADER));
+  if (!checksum) {
+    return NextResponse.json(
+      { error: `Missing/invalid ${CHECKSUM_HEADER} (sha256=<hex>)` },
+      { status: 400, headers }
+    );
+  }
+
+  // Buffered whole, so the length is checked before we read anything
+  const expected = expectedChunkLength(rec.chunked, rec.size, index);
+  const lengthHeader = req.headers.get("content-length");
+  if (lengthHeader == null) {
+    return NextResponse.json(
+      { error: "Content-Length required" },
+      { status: 411, headers }
+    );
+  }
+  if (Number(lengthHeader) !== expected) {
+    return NextResponse.json(
+      { error: "Wrong chunk size", expected_bytes: expected },
+      { status: 400, headers }
+    );
+  }
+
+  const bytes = new Uint8Array(await req.arrayBuffer());
+  if (bytes.byteLength !== expected) {
+    return NextResponse.json(
+      { error: "Wrong chunk size", expected_bytes: expected },
+      { status: 400, headers }
+    );
+  }
+  if (sha256Hex(bytes) !== checksum) {
+    return NextResponse.json(
+      { error: "checksum_mismatch" },
+      { status: 422, headers }
+    );
+  }
+
+  await saveChunk(token, index, bytes);
+  const received = await receivedChunks(token);
+
+  return NextResponse.json(
+    {
+      ok: true,
+      index,
+      received_chunks: received.length,
+      total_chunks: rec.chunked.total_chunks,
+    },
+    { headers }
+  );
+}
+
+export const OPTIONS = instrumentRoute(
+  "/api/vimeo/chunked/[token]/[index]",
+  handleOptions
+);
+export const PUT = instrumentRoute(
+  "/api/vimeo/chunked/[token]/[index]",
+  handlePut
+);
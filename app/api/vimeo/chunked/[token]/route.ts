@@ -0,0 +1,168 @@
+// app/api/vimeo/chunked/[token]/route.ts
+import { NextResponse } from "next/server";
+import {
+  completeLockName,
+  discardChunks,
+  forwardChunks,
+  missingChunks,
+  readChunkedUpload,
+  receivedChunks,
+} from "@/lib/chunkedUpload";
+import { corsPolicy } from "@/lib/cors";
+import { instrumentRoute } from "@/lib/instrument";
+import { acquireLock } from "@/lib/lock";
+import { logger } from "@/lib/log";
+import { profileOriginPatterns } from "@/lib/profiles";
+import { readUpload, updateUpload } from "@/lib/uploadStore";
+import { vimeoErrorResponse } from "@/lib/vimeoErrors";
+
+// Server-side chunked upload, for clients without a tus library (see
+// lib/chunkedUpload.ts). create-upload with approach "chunked" starts one;
+//   GET                      which chunks we have, to resume after a failure
+//   PUT  ./<index>           one chunk (see ./[index]/route.ts)
+//   POST                     all chunks are in: forward them to Vimeo
+
+export const dynamic = "force-dynamic";
+
+const log = logger("chunked");
+
+// forwarding a large upload takes a while; a crashed one frees up after this
+const COMPLETE_LOCK_SECONDS = 15 * 60;
+
+type Ctx = { params: Promise<{ token: string }> };
+
+const cors = corsPolicy({
+  methods: ["GET", "POST"],
+  extraOrigins: profileOriginPatterns,
+});
+
+async function handleOptions(req: Request) {
+  return cors.preflight(req);
+}
+
+async function handleGet(req: Request, ctx: Ctx) {
+  const blocked = cors.reject(req);
+  if (blocked) return blocked;
+
+  const headers = { ...cors.headers(req), "Cache-Control": "no-store" };
+  const { token } = await ctx.params;
+
+  const rec = await readChunkedUpload(token);
+  if (!rec) {
+    return NextResponse.json(
+      { error: "Unknown upload" },
+      { status: 404, headers }
+    );
+  }
+
+  const received = rec.chunked.completed_at ? [] : await receivedChunks(token);
+  return NextResponse.json(
+    {
+      ok: true,
+      state: rec.state,
+      size: rec.size,
+      chunk_size: rec.chunked.chunk_size,
+      total_chunks: rec.chunked.total_chunks,
+      received,
+      missing: rec.chunked.completed_at
+        ? []
+        : missingChunks(rec.chunked, received),
+      completed_at: rec.chunked.completed_at ?? null,
+    },
+    { headers }
+  );
+}
+
+async function handlePost(req: Request, ctx: Ctx) {
+  const blocked = cors.reject(req);
+  if (blocked) return blocked;
+
+  const headers = cors.headers(req);
+  const { token } = await ctx.params;
+
+  const rec = await readChunkedUpload(token);
+  if (!rec) {
+    return NextResponse.json(
+      { error: "Unknown upload" },
+      { status: 404, headers }
+    );
+  }
+  if (rec.chunked.completed_at) {
+    return NextResponse.json(
+      {
+        ok: true,
+        already_completed: true,
+        offset: rec.upload_offset ?? rec.size,
+      },
+      { headers }
+    );
+  }
+  if (rec.state === "deleted" || rec.state === "failed") {
+    return NextResponse.json(
+      { error: `Upload is ${rec.state}` },
+      { status: 410, headers }
+    );
+  }
+
+  const lock = await acquireLock(
+    completeLockName(token),
+    COMPLETE_LOCK_SECONDS
+  );
+  if (!lock) {
+    return NextResponse.json(
+      { error: "complete_in_progress" },
+      { status: 409, headers }
+    );
+  }
+
+  try {
+    const result = await forwardChunks(rec);
+    if (!result.ok && result.reason === "missing_chunks") {
+      return NextResponse.json(
+        { error: "missing_chunks", missing: result.missing },
+        { status: 409, headers }
+      );
+    }
+    if (!result.ok) {
+      log.warn("vimeo rejected chunk", {
+        status: result.status,
+        offset: result.offset,
+      });
+      return NextResponse.json(
+        {
+          error: "Vimeo rejected chunk",
+          vimeo_status: result.status,
+          offset: result.offset,
+        },
+        { status: 502, headers }
+      );
+    }
+
+    await updateUpload(token, {
+      chunked: { ...rec.chunked, completed_at: new Date().toISOString() },
+    });
+    await discardChunks(token);
+
+    const upload = await readUpload(token);
+    return NextResponse.json(
+      { ok: true, offset: result.offset, state: upload?.state ?? rec.state },
+      { headers }
+    );
+  } catch (err: unknown) {
+    const mapped = vimeoErrorResponse(err);
+    if (!mapped) throw err;
+    return NextResponse.json(
+      { ...mapped.body, message: "Forwarding to Vimeo failed" },
+      { status: mapped.status, headers: { ...headers, ...mapped.headers } }
+    );
+  } finally {
+    await lock.release();
+  }
+}
+
+export const OPTIONS = instrumentRoute(
+  "/api/vimeo/chunked/[token]",
+  handleOptions
+);
+export const GET = instrumentRoute("/api/vimeo/chunked/[token]", handleGet);
+export const POST = instrumentRoute("/api/vimeo/chunked/[token]", handlePost);
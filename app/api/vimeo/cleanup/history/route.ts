@@ -0,0 +1,59 @@
+// app/api/vimeo/cleanup/history/route.ts
+import { NextResponse } from "next/server";
+import { listAudit } from "@/lib/audit";
+import { requireAdmin } from "@/lib/auth";
+import { listCleanupRuns } from "@/lib/cleanupRuns";
+import { instrumentRoute } from "@/lib/instrument";
+
+// What cleanup (and everyone else) did, from the store rather than function logs.
+//   GET ?log=runs&limit=&offset=    cleanup runs with per-item outcomes (default)
+//   GET ?log=audit&limit=&offset=   confirms, deletes and admin overrides
+// Newest first. Admin only (Authorization: Bearer <ADMIN_SECRET>); no CORS.
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+
+async function handleGet(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const url = new URL(req.url);
+  const log = url.searchParams.get("log") || "runs";
+  if (log !== "runs" && log !== "audit") {
+    return NextResponse.json(
+      { error: 'Invalid log (expected "runs" or "audit")' },
+      { status: 400 }
+    );
+  }
+
+  const limit = Number(url.searchParams.get("limit") || DEFAULT_LIMIT);
+  const offset = Number(url.searchParams.get("offset") || 0);
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: "Invalid offset" }, { status: 400 });
+  }
+
+  const page = (total: number, items: unknown[]) =>
+    NextResponse.json({
+      ok: true,
+      log,
+      total,
+      offset,
+      limit,
+      next_offset: offset + items.length < total ? offset + items.length : null,
+      items,
+    });
+
+  if (log === "audit") {
+    const { total, entries } = await listAudit({ offset, count: limit });
+    return page(total, entries);
+  }
+  const { total, runs } = await listCleanupRuns({ offset, count: limit });
+  return page(total, runs);
+}
+
+export const GET = instrumentRoute("/api/vimeo/cleanup/history", handleGet);
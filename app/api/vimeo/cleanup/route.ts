@@ -1,36 +1,36 @@
 // app/api/vimeo/cleanup/route.ts
 import { NextResponse } from "next/server";
-import { vimeoDeleteVideo, vimeoWhoAmI } from "@/lib/vimeo";
+import { auditSource } from "@/lib/audit";
+import { parseBearer } from "@/lib/auth";
+import { corsPolicy } from "@/lib/cors";
 import {
-  isConfirmed,
-  listExpiredPending,
-  markDeleted,
-} from "@/lib/uploadStore";
+  cleanupDefaults,
+  CleanupInProgressError,
+  decodeCursor,
+  DEFAULT_LIMIT,
+  DEFAULT_MINUTES,
+  MAX_CONCURRENCY,
+  startCleanup,
+  type CleanupRun,
+} from "@/lib/cleanup";
+import { instrumentRoute } from "@/lib/instrument";
+import { logger } from "@/lib/log";
+import type { IndexPosition } from "@/lib/uploadStore";
 
 // Important for cron/logging: prevents cached responses in Vercel
 export const dynamic = "force-dynamic";
 
-const DEFAULT_HOURS = 24;
-const DEFAULT_LIMIT = 25;
+const log = logger("cleanup");
 
-function corsHeaders() {
-  return {
-    "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type, Authorization",
-  };
-}
-
-export async function OPTIONS() {
-  return new NextResponse(null, { status: 204, headers: corsHeaders() });
-}
+const cors = corsPolicy({ methods: ["GET", "POST"] });
 
-function parseBearer(authHeader: string | null) {
-  if (!authHeader) return "";
-  return authHeader.replace(/^Bearer\s+/i, "").trim();
+async function handleOptions(req: Request) {
+  return cors.preflight(req);
 }
 
 async function handler(req: Request) {
+  const headers = cors.headers(req);
+
   // Vercel Cron: Authorization: Bearer <CRON_SECRET>
   const cronSecret = process.env.CRON_SECRET;
   const token = parseBearer(req.headers.get("authorization"));
@@ -38,18 +38,10 @@ async function handler(req: Request) {
   if (cronSecret && token !== cronSecret) {
     return NextResponse.json(
       { error: "Unauthorized" },
-      { status: 401, headers: corsHeaders() }
+      { status: 401, headers }
     );
   }
 
-  // (Optional) TEMP DEBUG: verify which Vimeo account token belongs to (no token printed)
-  try {
-    const who = await vimeoWhoAmI();
-    console.log("[cleanup] vimeo /me status:", who.status);
-  } catch (e: any) {
-    console.log("[cleanup] vimeo /me failed:", String(e?.message || e));
-  }
-
   const url = new URL(req.url);
 
   const limit = Number(url.searchParams.get("limit") || DEFAULT_LIMIT);
@@ -61,134 +53,136 @@ async function handler(req: Request) {
   let minutes: number;
   if (minutesParam != null) minutes = Number(minutesParam);
   else if (hoursParam != null) minutes = Number(hoursParam) * 60;
-  else minutes = DEFAULT_HOURS * 60;
+  else minutes = DEFAULT_MINUTES;
 
   if (Number.isNaN(minutes) || minutes <= 0) {
     return NextResponse.json(
       { error: "Invalid minutes/hours" },
-      { status: 400, headers: corsHeaders() }
+      { status: 400, headers }
     );
   }
   if (Number.isNaN(limit) || limit <= 0) {
     return NextResponse.json(
       { error: "Invalid limit" },
-      { status: 400, headers: corsHeaders() }
+      { status: 400, headers }
     );
   }
 
-  const cutoffMs = Date.now() - minutes * 60 * 1000;
-  const cutoffISO = new Date(cutoffMs).toISOString();
+  const dryRun = /^(1|true|yes)$/i.test(url.searchParams.get("dry_run") || "");
 
-  const pending: any[] = await listExpiredPending(cutoffISO, limit);
-  if (!Array.isArray(pending)) {
+  const defaults = cleanupDefaults();
+  const concurrencyParam = url.searchParams.get("concurrency");
+  const concurrency =
+    concurrencyParam != null ? Number(concurrencyParam) : defaults.concurrency;
+  if (!Number.isInteger(concurrency) || concurrency <= 0) {
     return NextResponse.json(
-      {
-        error: "uploadStore list returned non-array",
-        returned: typeof pending,
-      },
-      { status: 500, headers: corsHeaders() }
+      { error: "Invalid concurrency" },
+      { status: 400, headers }
     );
   }
 
-  const results: any[] = [];
-  let deletedCount = 0;
-
-  for (const rec of pending) {
-    const pending_token =
-      rec.pending_token ?? rec.pendingToken ?? rec.token ?? rec.id ?? null;
-
-    const video_id =
-      rec.video_id ?? rec.videoId ?? rec.video_id_str ?? rec.video ?? null;
-
-    const item: any = {
-      pending_token,
-      video_id,
-      created_at: rec.created_at ?? rec.createdAt ?? rec.ts ?? null,
-    };
-
-    if (!pending_token || !video_id) {
-      item.error = "missing_pending_token_or_video_id";
-      results.push(item);
-      continue;
-    }
+  const budgetParam = url.searchParams.get("budget_ms");
+  const budgetMs = budgetParam != null ? Number(budgetParam) : defaults.budgetMs;
+  if (Number.isNaN(budgetMs) || budgetMs <= 0) {
+    return NextResponse.json(
+      { error: "Invalid budget_ms" },
+      { status: 400, headers }
+    );
+  }
 
-    // SAFETY: skip if upload was already confirmed (form submitted)
-    try {
-      const confirmed = await isConfirmed(String(video_id));
-      if (confirmed) {
-        item.skipped = "already_confirmed";
-        results.push(item);
-        continue;
-      }
-    } catch (err: any) {
-      console.log(
-        "[cleanup] isConfirmed check failed:",
-        String(err?.message || err)
+  // ?cursor=<c> resumes there, ?cursor= (empty) starts over, no param resumes
+  // wherever the last run stopped
+  const cursorParam = url.searchParams.get("cursor");
+  let cursor: IndexPosition | null | undefined;
+  if (cursorParam) {
+    const decoded = decodeCursor(cursorParam);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: "Invalid cursor" },
+        { status: 400, headers }
       );
-      // continue with deletion rather than failing the whole cron
     }
+    cursor = decoded;
+  } else if (cursorParam != null) {
+    cursor = null;
+  }
 
-    // 1) Delete on Vimeo (record status/body so prod debugging is easy)
-    const del = await vimeoDeleteVideo(String(video_id));
-    item.vimeo_status = del.status;
-
-    if (del.ok) {
-      item.deleted_on_vimeo = true;
-      deletedCount++;
-
-      // 2) Only mark deleted in store if Vimeo delete succeeded
-      try {
-        const deletedAt = new Date().toISOString();
-        const res = await markDeleted(pending_token, deletedAt);
-        item.mark_result = typeof res === "undefined" ? "ok" : res;
-      } catch (err: any) {
-        item.mark_error = String(err?.message || err);
-      }
-    } else {
-      item.deleted_on_vimeo = false;
-      item.vimeo_error = del.body || `status ${del.status}`;
-      item.mark_result = "skipped_mark_deleted_due_to_vimeo_failure";
+  let run: CleanupRun;
+  try {
+    run = await startCleanup({
+      minutes,
+      limit,
+      dryRun,
+      concurrency: Math.min(concurrency, MAX_CONCURRENCY),
+      budgetMs,
+      cursor,
+      trigger: "api",
+      source: auditSource(req, "cleanup"),
+    });
+  } catch (err) {
+    if (err instanceof CleanupInProgressError) {
+      return NextResponse.json(
+        { error: "cleanup_in_progress", locked_since: err.lockedSince },
+        { status: 409, headers }
+      );
     }
-
-    results.push(item);
+    throw err;
   }
 
-  console.log("[cleanup] run", {
-    cutoffISO,
+  log.info("run", {
+    cutoffISO: run.cutoffISO,
     requested_minutes: minutes,
     limit,
-    found: pending.length,
-    deleted: deletedCount,
-    sample: results.slice(0, 3),
+    dry_run: dryRun,
+    found: run.found,
+    processed: run.processed,
+    deleted: run.deleted,
+    quarantined: run.quarantined,
+    stopped_early: run.stopped_early,
+    sample: run.results.slice(0, 3),
   });
 
   return NextResponse.json(
     {
       ok: true,
-      cutoffISO,
+      cutoffISO: run.cutoffISO,
       requested_minutes: minutes,
       requested_limit: limit,
-      found: pending.length,
-      deleted: deletedCount,
-      results,
+      dry_run: dryRun,
+      found: run.found,
+      processed: run.processed,
+      deleted: run.deleted,
+      would_delete: run.would_delete,
+      quarantined: run.quarantined,
+      would_quarantine: run.would_quarantine,
+      next_cursor: run.next_cursor,
+      stopped_early: run.stopped_early,
+      results: run.results,
     },
-    { status: 200, headers: corsHeaders() }
+    { status: 200, headers }
   );
 }
 
 // POST supported
-export async function POST(req: Request) {
+async function handlePost(req: Request) {
+  const blocked = cors.reject(req);
+  if (blocked) return blocked;
+
   try {
     return await handler(req);
   } catch (err: any) {
     return NextResponse.json(
       { error: String(err?.message || err) },
-      { status: 500, headers: corsHeaders() }
+      { status: 500, headers: cors.headers(req) }
     );
   }
 }
 
 // REQUIRED for Vercel Cron (GET)
-export async function GET(req: Request) {
-  return POST(req);
+async function handleGet(req: Request) {
+  return handlePost(req);
 }
+
+export const OPTIONS = instrumentRoute("/api/vimeo/cleanup", handleOptions);
+export const POST = instrumentRoute("/api/vimeo/cleanup", handlePost);
+export const GET = instrumentRoute("/api/vimeo/cleanup", handleGet);
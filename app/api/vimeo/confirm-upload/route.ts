@@ -1,22 +1,61 @@
 // app/api/vimeo/confirm-upload/route.ts
 import { NextResponse } from "next/server";
-import { confirmPendingUpload } from "@/lib/uploadStore";
+import { auditSource, recordAudit } from "@/lib/audit";
+import { corsPolicy, normalizeOrigin } from "@/lib/cors";
+import { instrumentRoute } from "@/lib/instrument";
+import { logger } from "@/lib/log";
+import { incrementCounter } from "@/lib/metrics";
+import { emitWebhook } from "@/lib/outgoingWebhooks";
+import { verifyPendingToken } from "@/lib/pendingToken";
+import { profileOriginPatterns, vimeoForRecord } from "@/lib/profiles";
+import { restoreFromQuarantine } from "@/lib/quarantine";
+import {
+  resolveSubmission,
+  syncSubmissionToVimeo,
+  type UploadSubmission,
+} from "@/lib/submission";
+import { confirmPendingUpload, readUpload } from "@/lib/uploadStore";
+import { refreshUploadStatus } from "@/lib/uploadStatus";
+import type { VimeoVideoStatus } from "@/lib/vimeo";
+import { vimeoErrorResponse } from "@/lib/vimeoErrors";
 
 export const dynamic = "force-dynamic";
 
-function corsHeaders() {
-  return {
-    "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Methods": "POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type, Authorization",
-  };
+const log = logger("confirm-upload");
+
+// An optional `submission` ({ name, email, form_id, fields }, see
+// lib/submission.ts) is stored with the confirmation and, per
+// CONFIRM_SUBMISSION_TO_VIMEO, written to the video on Vimeo.
+
+// What to do when the form is submitted before Vimeo has the video ready
+// (VIMEO_CONFIRM_READY_POLICY; server config only, callers can't pick it):
+//   off    - confirm without asking Vimeo (legacy behaviour)
+//   flag   - confirm, but keep it on cleanup's radar until transcoding settles
+//   refuse - reject with 409 so the widget can wait and retry
+type ReadyPolicy = "off" | "flag" | "refuse";
+
+function parseReadyPolicy(v: unknown): ReadyPolicy | null {
+  return v === "off" || v === "flag" || v === "refuse" ? v : null;
 }
 
-export async function OPTIONS() {
-  return new NextResponse(null, { status: 204, headers: corsHeaders() });
+const READY_POLICY: ReadyPolicy =
+  parseReadyPolicy(process.env.VIMEO_CONFIRM_READY_POLICY) ?? "off";
+
+const cors = corsPolicy({
+  methods: ["POST"],
+  extraOrigins: profileOriginPatterns,
+});
+
+async function handleOptions(req: Request) {
+  return cors.preflight(req);
 }
 
-export async function POST(req: Request) {
+async function handlePost(req: Request) {
+  const blocked = cors.reject(req);
+  if (blocked) return blocked;
+
+  const headers = cors.headers(req);
+
   try {
     const body = await req.json().catch(() => ({}));
 
@@ -24,31 +63,195 @@ export async function POST(req: Request) {
     const video_id = String(body?.video_id || "").trim();
     const confirmed_at =
       String(body?.confirmed_at || "").trim() || new Date().toISOString();
+    const ready_policy = READY_POLICY;
 
     if (!pending_token || !video_id) {
       return NextResponse.json(
         { ok: false, error: "missing pending_token or video_id" },
-        { status: 400, headers: corsHeaders() }
+        { status: 400, headers }
+      );
+    }
+
+    let submission: UploadSubmission | undefined;
+    if (body?.submission != null) {
+      const resolved = resolveSubmission(body.submission);
+      if (!resolved.ok) {
+        return NextResponse.json(
+          { ok: false, error: "validation_failed", errors: resolved.errors },
+          { status: 422, headers }
+        );
+      }
+      submission = resolved.value;
+    }
+
+    // Verify the signed token before touching the store: a forged or mismatched
+    // token must never protect a video from cleanup
+    const check = verifyPendingToken(pending_token, {
+      video_id,
+      origin: normalizeOrigin(req.headers.get("origin")),
+      allowExpired: true,
+    });
+    if (!check.ok) {
+      log.warn("rejected token", { video_id, reason: check.reason });
+      const mismatch =
+        check.reason === "video_id_mismatch" || check.reason === "origin_mismatch";
+      return NextResponse.json(
+        { ok: false, error: "invalid_pending_token", reason: check.reason },
+        { status: mismatch ? 403 : 401, headers }
+      );
+    }
+
+    let rec = await readUpload(pending_token);
+
+    // The quarantine grace outlasts the token, so an expired token still
+    // restores a quarantined upload; it can't confirm anything else
+    if (check.expired && rec?.state !== "quarantined") {
+      log.warn("rejected token", { video_id, reason: "expired" });
+      return NextResponse.json(
+        { ok: false, error: "invalid_pending_token", reason: "expired" },
+        { status: 401, headers }
       );
     }
 
+    // Cleanup quarantined it before the form came in: bring it back first. A
+    // failed restore must not lose the submission, so confirm regardless.
+    let restored: boolean | null = null;
+    if (rec?.state === "quarantined" && rec.video_id === video_id) {
+      try {
+        const result = await restoreFromQuarantine(rec, {
+          note: "late_confirmation",
+        });
+        restored = result.ok;
+        if (result.ok) {
+          rec = result.record;
+          await recordAudit("upload.restore", auditSource(req, "client"), {
+            pending_token,
+            video_id,
+            detail: { folder_id: result.folder_id, late_confirmation: true },
+          });
+        } else {
+          log.warn("restore from quarantine refused", {
+            pending_token,
+            video_id,
+            reason: result.reason,
+          });
+        }
+      } catch (err: unknown) {
+        restored = false;
+        log.warn("restore from quarantine failed", {
+          pending_token,
+          video_id,
+          error: err,
+        });
+      }
+    }
+
+    // Ask Vimeo whether the video actually landed before we protect it from cleanup
+    let vimeo: VimeoVideoStatus | null = null;
+    let vimeo_unreachable = false;
+    if (ready_policy !== "off") {
+      if (rec && rec.video_id === video_id && rec.state !== "confirmed" && rec.state !== "deleted") {
+        try {
+          vimeo = (await refreshUploadStatus(rec)).vimeo;
+        } catch (err: unknown) {
+          // "flag" never loses a submission to a Vimeo outage: confirm and let
+          // cleanup check the video later. "refuse" can't decide, so says so.
+          const vimeoError = vimeoErrorResponse(err);
+          if (!vimeoError) throw err;
+          if (ready_policy === "refuse") {
+            return NextResponse.json(
+              { ok: false, ...vimeoError.body },
+              {
+                status: vimeoError.status,
+                headers: { ...headers, ...vimeoError.headers },
+              }
+            );
+          }
+          vimeo_unreachable = true;
+        }
+      }
+    }
+
+    if (vimeo && !vimeo.ready && ready_policy === "refuse") {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: vimeo.errored ? "video_failed" : "video_not_ready",
+          vimeo,
+        },
+        { status: 409, headers }
+      );
+    }
+
+    const awaiting_transcode = vimeo_unreachable || (!!vimeo && !vimeo.ready);
     const result = await confirmPendingUpload({
       pending_token,
       video_id,
       confirmed_at,
+      awaiting_transcode,
+      submission,
     });
 
+    // best-effort: the submission is safe in the store whatever Vimeo says
+    let submission_sync: Awaited<ReturnType<typeof syncSubmissionToVimeo>> = null;
+    if (result.ok && !result.already_confirmed) {
+      await incrementCounter("uploads_confirmed_total", {
+        awaiting_transcode: String(awaiting_transcode),
+      });
+      await recordAudit("upload.confirm", auditSource(req, "client"), {
+        pending_token,
+        video_id,
+        detail: { ready_policy, awaiting_transcode },
+      });
+      const confirmed = await readUpload(pending_token);
+      const client = confirmed && submission ? vimeoForRecord(confirmed) : null;
+      if (client && submission) {
+        try {
+          submission_sync = await syncSubmissionToVimeo(
+            client,
+            video_id,
+            submission
+          );
+        } catch (err: unknown) {
+          log.warn("submission sync failed", { pending_token, video_id, error: err });
+        }
+      }
+      if (confirmed) {
+        await emitWebhook("upload.confirmed", confirmed, {
+          awaiting_transcode,
+          submission: confirmed.submission ?? null,
+        });
+      }
+    }
+
     // super helpful for diagnosing “why did cron delete it?”
-    console.log("[confirm-upload]", { pending_token, video_id, result });
+    log.info("confirm", {
+      pending_token,
+      video_id,
+      ready_policy,
+      result,
+      restored,
+      submission: !!submission,
+      submission_sync,
+    });
 
     return NextResponse.json(
-      { ok: true, result },
-      { status: 200, headers: corsHeaders() }
+      {
+        ok: true,
+        result,
+        ready: vimeo ? vimeo.ready : null,
+        restored,
+        submission_sync,
+      },
+      { status: 200, headers }
     );
   } catch (err: any) {
     return NextResponse.json(
       { ok: false, error: String(err?.message || err) },
-      { status: 500, headers: corsHeaders() }
+      { status: 500, headers }
     );
   }
 }
+
+export const OPTIONS = instrumentRoute("/api/vimeo/confirm-upload", handleOptions);
+export const POST = instrumentRoute("/api/vimeo/confirm-upload", handlePost);
@@ -0,0 +1,41 @@
+// app/api/vimeo/import/route.ts
+
+import { corsPolicy } from "@/lib/cors";
+import { createUploadResponse } from "@/lib/createUpload";
+import { instrumentRoute } from "@/lib/instrument";
+import { profileOriginPatterns } from "@/lib/profiles";
+
+// Import by URL: Vimeo pulls the video from `link` (a Drive or Dropbox share,
+// say) instead of the browser uploading it. The same as create-upload with
+// approach "pull" (lib/createUpload.ts): `link` must pass lib/importUrl.ts and
+// `size` is optional. The result has a pending_token and goes through the
+// same confirm and cleanup lifecycle as any other upload.
+
+const cors = corsPolicy({
+  methods: ["POST"],
+  allowHeaders: [
+    "Content-Type",
+    "Authorization",
+    "X-Requested-With",
+    "X-Api-Key",
+  ],
+  extraOrigins: profileOriginPatterns,
+});
+
+async function handleOptions(req: Request) {
+  return cors.preflight(req);
+}
+
+async function handlePost(req: Request) {
+  const blocked = cors.reject(req);
+  if (blocked) return blocked;
+
+  return createUploadResponse(req, cors.headers(req), {
+    scope: "import",
+    approach: "pull",
+    failure: "Failed to import video into Vimeo",
+  });
+}
+
+export const OPTIONS = instrumentRoute("/api/vimeo/import", handleOptions);
+export const POST = instrumentRoute("/api/vimeo/import", handlePost);
@@ -0,0 +1,135 @@
+// app/api/vimeo/status/route.ts
+import { NextResponse } from "next/server";
+import { corsPolicy } from "@/lib/cors";
+import { instrumentRoute } from "@/lib/instrument";
+import { logger } from "@/lib/log";
+import { verifyPendingToken } from "@/lib/pendingToken";
+import { profileOriginPatterns } from "@/lib/profiles";
+import { checkStatusPollLimit, clientKeyFor } from "@/lib/rateLimit";
+import { readUpload } from "@/lib/uploadStore";
+import { recentVimeoStatus, refreshUploadStatus } from "@/lib/uploadStatus";
+import { vimeoErrorResponse } from "@/lib/vimeoErrors";
+
+export const dynamic = "force-dynamic";
+
+const log = logger("status");
+
+// A widget polling in a loop would otherwise spend the shared Vimeo budget
+// (lib/vimeoBudget.ts): answers are reused for this long
+//   STATUS_CACHE_SECONDS  default 5, 0 = always ask Vimeo
+function cacheSeconds() {
+  const n = Number(process.env.STATUS_CACHE_SECONDS);
+  return process.env.STATUS_CACHE_SECONDS != null && Number.isFinite(n) && n >= 0
+    ? n
+    : 5;
+}
+
+const cors = corsPolicy({
+  methods: ["GET"],
+  extraOrigins: profileOriginPatterns,
+});
+
+async function handleOptions(req: Request) {
+  return cors.preflight(req);
+}
+
+// GET /api/vimeo/status?pending_token=...
+// Lets the upload widget poll until Vimeo has the video ready before submitting the form.
+async function handleGet(req: Request) {
+  const blocked = cors.reject(req);
+  if (blocked) return blocked;
+
+  const headers = cors.headers(req);
+
+  let limited: Awaited<ReturnType<typeof checkStatusPollLimit>> = null;
+  try {
+    limited = await checkStatusPollLimit(clientKeyFor(req));
+  } catch (err: unknown) {
+    log.warn("rate limit check failed", { error: err });
+  }
+  if (limited) {
+    return NextResponse.json(
+      { ok: false, error: limited.error, limit: limited.limit },
+      {
+        status: 429,
+        headers: { ...headers, "Retry-After": String(limited.retry_after_seconds) },
+      }
+    );
+  }
+
+  try {
+    const url = new URL(req.url);
+    const pending_token = String(url.searchParams.get("pending_token") || "").trim();
+
+    if (!pending_token) {
+      return NextResponse.json(
+        { ok: false, error: "missing pending_token" },
+        { status: 400, headers }
+      );
+    }
+
+    const check = verifyPendingToken(pending_token);
+    if (!check.ok) {
+      return NextResponse.json(
+        { ok: false, error: "invalid_pending_token", reason: check.reason },
+        { status: 401, headers }
+      );
+    }
+
+    const rec = await readUpload(pending_token);
+    if (!rec) {
+      return NextResponse.json(
+        { ok: false, error: "pending_token_not_found" },
+        { status: 404, headers }
+      );
+    }
+
+    // No point asking Vimeo about a video we already deleted
+    if (rec.state === "deleted") {
+      return NextResponse.json(
+        { ok: true, video_id: rec.video_id, state: rec.state, ready: false },
+        { status: 200, headers }
+      );
+    }
+
+    const cached = recentVimeoStatus(rec, cacheSeconds());
+    const { record, vimeo } = cached
+      ? { record: rec, vimeo: cached }
+      : await refreshUploadStatus(rec);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        video_id: record.video_id,
+        state: record.state,
+        ready: vimeo.ready,
+        errored: vimeo.errored,
+        vimeo: {
+          found: vimeo.found,
+          status: vimeo.status,
+          upload_status: vimeo.upload_status,
+          transcode_status: vimeo.transcode_status,
+        },
+        upload_offset: record.upload_offset ?? null,
+        size: record.size ?? null,
+        checked_at: record.vimeo_status?.checked_at ?? null,
+      },
+      { status: 200, headers }
+    );
+  } catch (err: unknown) {
+    const vimeoError = vimeoErrorResponse(err);
+    if (vimeoError) {
+      return NextResponse.json(
+        { ok: false, ...vimeoError.body },
+        { status: vimeoError.status, headers: { ...headers, ...vimeoError.headers } }
+      );
+    }
+    return NextResponse.json(
+      { ok: false, error: String((err as Error)?.message || err) },
+      { status: 500, headers }
+    );
+  }
+}
+
+export const OPTIONS = instrumentRoute("/api/vimeo/status", handleOptions);
+export const GET = instrumentRoute("/api/vimeo/status", handleGet);
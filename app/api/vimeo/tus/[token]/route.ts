@@ -0,0 +1,212 @@
+// app/api/vimeo/tus/[token]/route.ts
+import { NextResponse } from "next/server";
+import { corsPolicy } from "@/lib/cors";
+import { instrumentRoute } from "@/lib/instrument";
+import { logger } from "@/lib/log";
+import { verifyPendingToken } from "@/lib/pendingToken";
+import { profileOriginPatterns } from "@/lib/profiles";
+import { readUpload, recordUploadProgress } from "@/lib/uploadStore";
+import { vimeoTusHead, vimeoTusPatch } from "@/lib/vimeo";
+import { httpStatusForVimeoError, VimeoError } from "@/lib/vimeoErrors";
+
+// tus 1.0.0 proxy: the browser talks to us, we stream chunks on to the Vimeo
+// upload_link stored in the pending record. Creation happens in create-upload,
+// so only HEAD (resume) and PATCH (send bytes) are implemented here.
+
+export const dynamic = "force-dynamic";
+
+const log = logger("tus");
+
+const TUS_VERSION = "1.0.0";
+
+type Ctx = { params: Promise<{ token: string }> };
+
+const cors = corsPolicy({
+  methods: ["HEAD", "PATCH"],
+  allowHeaders: [
+    "Content-Type",
+    "Tus-Resumable",
+    "Upload-Offset",
+    "Upload-Length",
+    "Upload-Metadata",
+    "X-Requested-With",
+  ],
+  exposeHeaders: ["Tus-Resumable", "Tus-Version", "Upload-Offset", "Upload-Length"],
+  extraOrigins: profileOriginPatterns,
+});
+
+function tusHeaders(req: Request, extra: Record<string, string> = {}) {
+  return {
+    ...cors.headers(req),
+    "Tus-Resumable": TUS_VERSION,
+    "Cache-Control": "no-store",
+    ...extra,
+  };
+}
+
+function tusError(
+  req: Request,
+  status: number,
+  error: string,
+  extra: Record<string, string> = {}
+) {
+  return NextResponse.json({ error }, { status, headers: tusHeaders(req, extra) });
+}
+
+/**
+ * Caps a streamed body at `max` bytes so a client can't push more than it
+ * declared in create-upload, even without a Content-Length.
+ */
+function limitStream(body: ReadableStream<Uint8Array>, max: number) {
+  const state = { seen: 0, exceeded: false };
+  const stream = body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        state.seen += chunk.byteLength;
+        if (state.seen > max) {
+          state.exceeded = true;
+          controller.error(new Error("upload exceeds declared size"));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    })
+  );
+  return { stream, state };
+}
+
+async function handleOptions(req: Request) {
+  const blocked = cors.reject(req);
+  if (blocked) return blocked;
+
+  return new NextResponse(null, {
+    status: 204,
+    headers: tusHeaders(req, { "Tus-Version": TUS_VERSION }),
+  });
+}
+
+async function handleHead(req: Request, ctx: Ctx) {
+  const blocked = cors.reject(req);
+  if (blocked) return blocked;
+
+  const { token } = await ctx.params;
+
+  try {
+    if (!verifyPendingToken(token).ok) {
+      return new NextResponse(null, { status: 404, headers: tusHeaders(req) });
+    }
+
+    const rec = await readUpload(token);
+    if (!rec?.upload_link) {
+      return new NextResponse(null, { status: 404, headers: tusHeaders(req) });
+    }
+
+    // Vimeo is the source of truth for the offset (a PATCH may have died mid-stream)
+    let offset = rec.upload_offset ?? 0;
+    const head = await vimeoTusHead(rec.upload_link);
+    if (head.ok && head.offset != null) {
+      offset = head.offset;
+      if (offset !== rec.upload_offset) {
+        await recordUploadProgress(token, {
+          offset,
+          at: new Date().toISOString(),
+        });
+      }
+    }
+
+    const headers: Record<string, string> = { "Upload-Offset": String(offset) };
+    if (rec.size != null) headers["Upload-Length"] = String(rec.size);
+
+    return new NextResponse(null, { status: 200, headers: tusHeaders(req, headers) });
+  } catch (err: unknown) {
+    log.warn("HEAD failed", { error: err });
+    const status = err instanceof VimeoError ? httpStatusForVimeoError(err) : 502;
+    return new NextResponse(null, { status, headers: tusHeaders(req) });
+  }
+}
+
+async function handlePatch(req: Request, ctx: Ctx) {
+  const blocked = cors.reject(req);
+  if (blocked) return blocked;
+
+  const { token } = await ctx.params;
+
+  if (req.headers.get("tus-resumable") !== TUS_VERSION) {
+    return tusError(req, 412, "Unsupported Tus-Resumable version", {
+      "Tus-Version": TUS_VERSION,
+    });
+  }
+  if (req.headers.get("content-type") !== "application/offset+octet-stream") {
+    return tusError(req, 415, "Content-Type must be application/offset+octet-stream");
+  }
+
+  const offset = Number(req.headers.get("upload-offset"));
+  if (!Number.isInteger(offset) || offset < 0) {
+    return tusError(req, 400, "Missing/invalid Upload-Offset");
+  }
+
+  try {
+    if (!verifyPendingToken(token).ok) return tusError(req, 404, "Unknown upload");
+
+    const rec = await readUpload(token);
+    if (!rec?.upload_link) return tusError(req, 404, "Unknown upload");
+    if (rec.state === "deleted" || rec.state === "failed") {
+      return tusError(req, 410, `Upload is ${rec.state}`);
+    }
+
+    const current = rec.upload_offset ?? 0;
+    if (offset !== current) {
+      return tusError(req, 409, "Upload-Offset does not match", {
+        "Upload-Offset": String(current),
+      });
+    }
+
+    const lengthHeader = req.headers.get("content-length");
+    const contentLength = lengthHeader != null ? Number(lengthHeader) : undefined;
+    const remaining = rec.size != null ? rec.size - offset : Infinity;
+    if (contentLength != null && contentLength > remaining) {
+      return tusError(req, 413, "Chunk exceeds declared upload size");
+    }
+    if (!req.body) return tusError(req, 400, "Missing body");
+
+    const limited = limitStream(req.body, remaining);
+    const patch = await vimeoTusPatch(rec.upload_link, {
+      offset,
+      body: limited.stream,
+      contentLength,
+    }).catch((err) => {
+      if (limited.state.exceeded) return null;
+      throw err;
+    });
+
+    if (!patch) {
+      // Vimeo may have kept part of the chunk; the client re-syncs via HEAD
+      return tusError(req, 413, "Chunk exceeds declared upload size");
+    }
+
+    if (!patch.ok || patch.offset == null) {
+      log.warn("vimeo PATCH failed", {
+        status: patch.status,
+        body: patch.body.slice(0, 200),
+      });
+      return tusError(req, patch.ok ? 502 : patch.status, "Vimeo rejected chunk");
+    }
+
+    await recordUploadProgress(token, {
+      offset: patch.offset,
+      at: new Date().toISOString(),
+    });
+
+    return new NextResponse(null, {
+      status: 204,
+      headers: tusHeaders(req, { "Upload-Offset": String(patch.offset) }),
+    });
+  } catch (err: unknown) {
+    const status = err instanceof VimeoError ? httpStatusForVimeoError(err) : 502;
+    return tusError(req, status, String((err as Error)?.message || err));
+  }
+}
+
+export const OPTIONS = instrumentRoute("/api/vimeo/tus/[token]", handleOptions);
+export const HEAD = instrumentRoute("/api/vimeo/tus/[token]", handleHead);
+export const PATCH = instrumentRoute("/api/vimeo/tus/[token]", handlePatch);
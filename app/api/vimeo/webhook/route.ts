@@ -0,0 +1,101 @@
+// app/api/vimeo/webhook/route.ts
+import { NextResponse } from "next/server";
+import { instrumentRoute } from "@/lib/instrument";
+import { logger } from "@/lib/log";
+import { canTransition, type UploadState } from "@/lib/uploadLifecycle";
+import {
+  findUploadByVideoId,
+  markDeleted,
+  transitionUpload,
+  updateUpload,
+} from "@/lib/uploadStore";
+import { parseWebhookEvent, verifyWebhookSignature } from "@/lib/vimeoWebhook";
+
+// Server-to-server only: no CORS. Always answer 2xx for events we understood
+// (even unknown videos) so the sender doesn't retry them forever.
+
+export const dynamic = "force-dynamic";
+
+const log = logger("webhook");
+
+const TARGET_STATE: Record<string, UploadState> = {
+  "video.available": "available",
+  "video.transcode_failed": "failed",
+  "video.deleted": "deleted",
+};
+
+async function handlePost(req: Request) {
+  const secret = process.env.VIMEO_WEBHOOK_SECRET || "";
+  if (!secret) {
+    return NextResponse.json({ error: "Webhook not configured" }, { status: 503 });
+  }
+
+  const raw = await req.text();
+  const signature =
+    req.headers.get("x-vimeo-signature") ?? req.headers.get("x-webhook-signature");
+  if (!verifyWebhookSignature(raw, signature, secret)) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const event = parseWebhookEvent(body);
+  if (!event) {
+    log.info("ignored unrecognized event");
+    return NextResponse.json({ ok: true, ignored: "unrecognized_event" });
+  }
+
+  try {
+    const rec = await findUploadByVideoId(event.video_id);
+    if (!rec) {
+      log.info("ignored event for unknown video", {
+        type: event.raw_type,
+        video_id: event.video_id,
+      });
+      return NextResponse.json({ ok: true, ignored: "unknown_video" });
+    }
+
+    const at = new Date().toISOString();
+    const to = TARGET_STATE[event.type];
+    const note = `webhook:${event.raw_type}`;
+
+    let state = rec.state;
+    if (to === "deleted" && rec.state !== "deleted") {
+      await markDeleted(rec.pending_token, at, note);
+      state = to;
+    } else if (to !== rec.state && canTransition(rec.state, to)) {
+      await transitionUpload(rec.pending_token, to, { at, note });
+      state = to;
+    } else if (to === "available" && rec.awaiting_transcode) {
+      // confirmed before the transcode finished; nothing left for cleanup to watch
+      await updateUpload(rec.pending_token, { awaiting_transcode: false });
+    } else {
+      log.info("no transition", {
+        type: event.raw_type,
+        video_id: event.video_id,
+        state: rec.state,
+      });
+      return NextResponse.json({ ok: true, state: rec.state, changed: false });
+    }
+
+    log.info("applied event", {
+      type: event.raw_type,
+      video_id: event.video_id,
+      from: rec.state,
+      to: state,
+    });
+    return NextResponse.json({ ok: true, state, changed: true });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: String((err as Error)?.message || err) },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = instrumentRoute("/api/vimeo/webhook", handlePost);
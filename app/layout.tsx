@@ -13,8 +13,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "Vimeo uploads",
+  description: "Upload pipeline dashboard",
 };
 
 export default function RootLayout({
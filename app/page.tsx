@@ -1,65 +1,322 @@
-import Image from "next/image";
+// app/page.tsx
+import { cookies } from "next/headers";
+import { login, logout, triggerCleanup } from "@/app/actions";
+import { ADMIN_SESSION_COOKIE, isAdminSession } from "@/lib/auth";
+import { DEFAULT_LIMIT, DEFAULT_MINUTES } from "@/lib/cleanup";
+import { listCleanupRuns } from "@/lib/cleanupRuns";
+import {
+  countUploads,
+  listUploads,
+  type UploadRecord,
+} from "@/lib/uploadStore";
+
+// Admin dashboard: upload counts, the latest uploads and recent cleanup runs,
+// plus buttons to run cleanup by hand. Log in with ADMIN_SECRET.
+
+export const dynamic = "force-dynamic";
+
+const COUNT_WINDOW_DAYS = 7;
+const RECENT_UPLOADS = 25;
+const RECENT_RUNS = 10;
+
+type PageProps = {
+  searchParams: Promise<{ error?: string; notice?: string }>;
+};
+
+const ERRORS: Record<string, string> = {
+  invalid_secret: "That secret doesn't match ADMIN_SECRET.",
+  invalid_cleanup_params: "Minutes and limit must be positive numbers.",
+};
+
+function age(iso: string | undefined, now: number) {
+  const ms = now - Date.parse(iso || "");
+  if (!Number.isFinite(ms)) return "—";
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / (24 * 60))}d`;
+}
+
+function vimeoStatus(rec: UploadRecord) {
+  const v = rec.vimeo_status;
+  if (!v) return "—";
+  return v.status ?? `${v.upload ?? "?"}/${v.transcode ?? "?"}`;
+}
+
+function folderResult(rec: UploadRecord) {
+  if (rec.folder_add_ok == null) return "—";
+  return rec.folder_add_ok ? "added" : "failed";
+}
+
+async function loadDashboard() {
+  const now = Date.now();
+  const [{ counts, scanned, truncated }, { records }, { runs }] =
+    await Promise.all([
+      countUploads({
+        created_after: new Date(
+          now - COUNT_WINDOW_DAYS * 24 * 60 * 60 * 1000
+        ).toISOString(),
+      }),
+      listUploads({ limit: RECENT_UPLOADS }),
+      listCleanupRuns({ count: RECENT_RUNS }),
+    ]);
+  return { now, counts, scanned, truncated, records, runs };
+}
+
+export default async function Dashboard({ searchParams }: PageProps) {
+  const { error, notice } = await searchParams;
+  const session = (await cookies()).get(ADMIN_SESSION_COOKIE)?.value;
+
+  if (!process.env.ADMIN_SECRET) {
+    return (
+      <Shell>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          The dashboard is disabled until ADMIN_SECRET is set.
+        </p>
+      </Shell>
+    );
+  }
+
+  if (!isAdminSession(session)) {
+    return (
+      <Shell>
+        <form action={login} className="flex max-w-sm flex-col gap-3">
+          <label className="text-sm font-medium" htmlFor="secret">
+            Admin secret
+          </label>
+          <input
+            id="secret"
+            name="secret"
+            type="password"
+            autoComplete="current-password"
+            required
+            className="rounded border border-zinc-300 px-3 py-2 dark:border-zinc-700 dark:bg-zinc-900"
+          />
+          <button className="rounded bg-foreground px-4 py-2 text-background">
+            Log in
+          </button>
+          {error && ERRORS[error] && (
+            <p className="text-sm text-red-600">{ERRORS[error]}</p>
+          )}
+        </form>
+      </Shell>
+    );
+  }
+
+  const { now, counts, scanned, truncated, records, runs } =
+    await loadDashboard();
+  const pending =
+    counts.created +
+    counts.uploading +
+    counts.uploaded +
+    counts.transcoding +
+    counts.available;
 
-export default function Home() {
   return (
-    <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
-      <main className="flex min-h-screen w-full max-w-3xl flex-col items-center justify-between py-32 px-16 bg-white dark:bg-black sm:items-start">
-        <Image
-          className="dark:invert"
-          src="/next.svg"
-          alt="Next.js logo"
-          width={100}
-          height={20}
-          priority
-        />
-        <div className="flex flex-col items-center gap-6 text-center sm:items-start sm:text-left">
-          <h1 className="max-w-xs text-3xl font-semibold leading-10 tracking-tight text-black dark:text-zinc-50">
-            To get started, edit the page.tsx file.
-          </h1>
-          <p className="max-w-md text-lg leading-8 text-zinc-600 dark:text-zinc-400">
-            Looking for a starting point or more instructions? Head over to{" "}
-            <a
-              href="https://vercel.com/templates?framework=next.js&utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-              className="font-medium text-zinc-950 dark:text-zinc-50"
-            >
-              Templates
-            </a>{" "}
-            or the{" "}
-            <a
-              href="https://nextjs.org/learn?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-              className="font-medium text-zinc-950 dark:text-zinc-50"
-            >
-              Learning
-            </a>{" "}
-            center.
-          </p>
+    <Shell
+      actions={
+        <form action={logout}>
+          <button className="text-sm text-zinc-500 underline">Log out</button>
+        </form>
+      }
+    >
+      {notice && (
+        <p className="rounded bg-zinc-100 px-3 py-2 text-sm dark:bg-zinc-900">
+          {notice}
+        </p>
+      )}
+      {error && ERRORS[error] && (
+        <p className="text-sm text-red-600">{ERRORS[error]}</p>
+      )}
+
+      <section>
+        <h2 className="mb-3 text-lg font-semibold">
+          Last {COUNT_WINDOW_DAYS} days
+        </h2>
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+          <Stat label="Pending" value={pending} />
+          <Stat label="Confirmed" value={counts.confirmed} />
+          <Stat label="Quarantined" value={counts.quarantined} />
+          <Stat label="Failed" value={counts.failed} />
+          <Stat label="Deleted" value={counts.deleted} />
         </div>
-        <div className="flex flex-col gap-4 text-base font-medium sm:flex-row">
-          <a
-            className="flex h-12 w-full items-center justify-center gap-2 rounded-full bg-foreground px-5 text-background transition-colors hover:bg-[#383838] dark:hover:bg-[#ccc] md:w-[158px]"
-            href="https://vercel.com/new?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            <Image
-              className="dark:invert"
-              src="/vercel.svg"
-              alt="Vercel logomark"
-              width={16}
-              height={16}
+        {truncated && (
+          <p className="mt-2 text-xs text-zinc-500">
+            Counted the newest {scanned} uploads only.
+          </p>
+        )}
+      </section>
+
+      <section>
+        <h2 className="mb-3 text-lg font-semibold">Cleanup</h2>
+        <form
+          action={triggerCleanup}
+          className="flex flex-wrap items-end gap-3"
+        >
+          <label className="flex flex-col text-sm">
+            Older than (minutes)
+            <input
+              name="minutes"
+              type="number"
+              min="1"
+              defaultValue={DEFAULT_MINUTES}
+              className="w-36 rounded border border-zinc-300 px-2 py-1 dark:border-zinc-700 dark:bg-zinc-900"
+            />
+          </label>
+          <label className="flex flex-col text-sm">
+            Limit
+            <input
+              name="limit"
+              type="number"
+              min="1"
+              defaultValue={DEFAULT_LIMIT}
+              className="w-24 rounded border border-zinc-300 px-2 py-1 dark:border-zinc-700 dark:bg-zinc-900"
             />
-            Deploy Now
-          </a>
-          <a
-            className="flex h-12 w-full items-center justify-center rounded-full border border-solid border-black/[.08] px-5 transition-colors hover:border-transparent hover:bg-black/[.04] dark:border-white/[.145] dark:hover:bg-[#1a1a1a] md:w-[158px]"
-            href="https://nextjs.org/docs?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
+          </label>
+          <button
+            name="dry_run"
+            value="1"
+            className="rounded border border-zinc-300 px-4 py-1.5 dark:border-zinc-700"
           >
-            Documentation
-          </a>
-        </div>
-      </main>
+            Dry run
+          </button>
+          <button
+            name="dry_run"
+            value="0"
+            className="rounded bg-red-600 px-4 py-1.5 text-white"
+          >
+            Run cleanup
+          </button>
+        </form>
+
+        <Table
+          headers={[
+            "Started",
+            "Trigger",
+            "Mode",
+            "Found",
+            "Deleted",
+            "Quarantined",
+            "Failed",
+            "Stopped early",
+            "Duration",
+          ]}
+          empty="No cleanup runs recorded yet."
+          rows={runs.map((run) => [
+            `${age(run.started_at, now)} ago`,
+            run.trigger,
+            run.dry_run
+              ? `dry (${run.would_delete} would delete, ${run.would_quarantine ?? 0} would quarantine)`
+              : "real",
+            run.found,
+            run.deleted,
+            // runs logged before quarantine existed don't have the field
+            run.quarantined ?? 0,
+            run.failed,
+            run.stopped_early ?? "—",
+            `${(run.duration_ms / 1000).toFixed(1)}s`,
+          ])}
+        />
+      </section>
+
+      <section>
+        <h2 className="mb-3 text-lg font-semibold">Recent uploads</h2>
+        <Table
+          headers={[
+            "Age",
+            "State",
+            "Vimeo status",
+            "Folder",
+            "Video",
+            "Profile",
+            "Token",
+          ]}
+          empty="No uploads yet."
+          rows={records.map((rec) => [
+            age(rec.created_at, now),
+            rec.awaiting_transcode
+              ? `${rec.state} (awaiting transcode)`
+              : rec.state,
+            vimeoStatus(rec),
+            folderResult(rec),
+            rec.video_id,
+            rec.profile ?? "default",
+            <code key="token" title={rec.pending_token}>
+              {rec.pending_token.slice(0, 12)}…
+            </code>,
+          ])}
+        />
+      </section>
+    </Shell>
+  );
+}
+
+function Shell({
+  children,
+  actions,
+}: {
+  children: React.ReactNode;
+  actions?: React.ReactNode;
+}) {
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-5xl flex-col gap-8 px-6 py-12 font-sans">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold tracking-tight">Vimeo uploads</h1>
+        {actions}
+      </header>
+      {children}
+    </main>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="rounded border border-zinc-200 p-4 dark:border-zinc-800">
+      <div className="text-sm text-zinc-500">{label}</div>
+      <div className="text-2xl font-semibold">{value}</div>
+    </div>
+  );
+}
+
+function Table({
+  headers,
+  rows,
+  empty,
+}: {
+  headers: string[];
+  rows: React.ReactNode[][];
+  empty: string;
+}) {
+  if (!rows.length) {
+    return <p className="mt-4 text-sm text-zinc-500">{empty}</p>;
+  }
+  return (
+    <div className="mt-4 overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <thead className="border-b border-zinc-200 text-zinc-500 dark:border-zinc-800">
+          <tr>
+            {headers.map((h) => (
+              <th key={h} className="py-2 pr-4 font-medium">
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, i) => (
+            <tr
+              key={i}
+              className="border-b border-zinc-100 dark:border-zinc-900"
+            >
+              {row.map((cell, j) => (
+                <td key={j} className="py-2 pr-4 whitespace-nowrap">
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
     </div>
   );
 }
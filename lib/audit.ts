@@ -0,0 +1,86 @@
+// lib/audit.ts
+import { logger } from "@/lib/log";
+import { clientIp } from "@/lib/rateLimit";
+import { getKv } from "@/lib/store";
+
+// Append-only record of who confirmed, deleted or overrode what, newest first.
+// Capped like the cleanup run log; read it through app/api/vimeo/cleanup/history.
+//
+// Admin callers all share ADMIN_SECRET, so they can name themselves with an
+// `X-Actor` header; otherwise the entry just says "admin".
+
+const log = logger("audit");
+
+const AUDIT_KEY = "vimeo:audit";
+const MAX_ENTRIES = 5000;
+
+export type AuditAction =
+  | "upload.confirm"
+  | "upload.delete"
+  | "upload.force_confirm"
+  | "upload.force_delete"
+  | "upload.hold"
+  | "upload.quarantine"
+  | "upload.restore"
+  | "dead_letter.requeue";
+
+export type AuditEntry = {
+  at: string;
+  action: AuditAction;
+  /** "client" (the form), "cleanup", "admin[:name]" or "dashboard". */
+  actor: string;
+  ip: string;
+  pending_token?: string;
+  video_id?: string;
+  detail?: Record<string, unknown>;
+};
+
+/** Who's asking, for the audit log. */
+export type AuditSource = { actor: string; ip: string };
+
+type HasHeaders = { headers: Pick<Headers, "get"> };
+
+export function auditSource(req: HasHeaders, actor: string): AuditSource {
+  return { actor, ip: clientIp(req) };
+}
+
+/** Admin routes: the shared-secret caller, named by X-Actor when they bother. */
+export function adminAuditSource(req: HasHeaders): AuditSource {
+  const name = (req.headers.get("x-actor") || "").trim().slice(0, 64);
+  return auditSource(req, name ? `admin:${name}` : "admin");
+}
+
+/** Best-effort: a store hiccup here must not fail the action being recorded. */
+export async function recordAudit(
+  action: AuditAction,
+  source: AuditSource,
+  fields: Pick<AuditEntry, "pending_token" | "video_id" | "detail"> = {}
+) {
+  const entry: AuditEntry = {
+    at: new Date().toISOString(),
+    action,
+    ...source,
+    ...fields,
+  };
+  try {
+    const kv = getKv();
+    await kv.lpush(AUDIT_KEY, entry);
+    await kv.ltrim(AUDIT_KEY, 0, MAX_ENTRIES - 1);
+  } catch (err: unknown) {
+    log.warn("failed to record", { action, error: err });
+  }
+}
+
+/** Newest first; `total` is how many entries are kept right now. */
+export async function listAudit(
+  opts: { offset?: number; count?: number } = {}
+) {
+  const kv = getKv();
+  const offset = opts.offset ?? 0;
+  const count = opts.count ?? 50;
+  const [total, entries] = await Promise.all([
+    kv.llen(AUDIT_KEY),
+    kv.lrange<AuditEntry>(AUDIT_KEY, offset, offset + count - 1),
+  ]);
+  return { total, entries };
+}
@@ -0,0 +1,85 @@
+// lib/auth.ts
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+
+// Shared-secret checks for the routes browsers never call.
+//
+//   CRON_SECRET   cleanup (Vercel Cron sends it as `Authorization: Bearer ...`)
+//   ADMIN_SECRET    /api/admin/*; those routes answer 503 while it's unset.
+//                   The dashboard (app/page.tsx) asks for it once and then keeps a
+//                   signed session cookie instead.
+//   METRICS_SECRET  /api/metrics, so a scraper doesn't need the admin secret
+//                   (falls back to ADMIN_SECRET)
+//   HEALTH_SECRET   /api/health's detailed report (falls back to ADMIN_SECRET);
+//                   without it callers only get { ok }
+
+export function parseBearer(authHeader: string | null) {
+  if (!authHeader) return "";
+  return authHeader.replace(/^Bearer\s+/i, "").trim();
+}
+
+/** Constant-time comparison that doesn't leak the secret's length. */
+export function secretMatches(given: string, expected: string) {
+  const a = crypto.createHash("sha256").update(given).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+function requireSecret(req: Request, envName: string, what: string) {
+  const secret = process.env[envName];
+  if (!secret) {
+    return NextResponse.json(
+      { error: `${what} disabled (${envName} not set)` },
+      { status: 503 }
+    );
+  }
+
+  const token = parseBearer(req.headers.get("authorization"));
+  if (!token || !secretMatches(token, secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
+
+/** A 401/503 response for non-admin callers; null when the request may proceed. */
+export function requireAdmin(req: Request) {
+  return requireSecret(req, "ADMIN_SECRET", "Admin API");
+}
+
+/** Same as requireAdmin, but METRICS_SECRET wins when it's set. */
+export function requireMetricsReader(req: Request) {
+  const envName = process.env.METRICS_SECRET ? "METRICS_SECRET" : "ADMIN_SECRET";
+  return requireSecret(req, envName, "Metrics");
+}
+
+/** Same as requireAdmin, but HEALTH_SECRET wins when it's set. */
+export function requireHealthReader(req: Request) {
+  const envName = process.env.HEALTH_SECRET ? "HEALTH_SECRET" : "ADMIN_SECRET";
+  return requireSecret(req, envName, "Health details");
+}
+
+export const ADMIN_SESSION_COOKIE = "vimeo_admin_session";
+export const ADMIN_SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+function sessionSignature(secret: string, expires: number) {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`admin-session:${expires}`)
+    .digest("base64url");
+}
+
+/** Cookie value for a dashboard login; rotating ADMIN_SECRET invalidates it. */
+export function mintAdminSession(secret: string, now = Date.now()) {
+  const expires = Math.floor(now / 1000) + ADMIN_SESSION_TTL_SECONDS;
+  return `${expires}.${sessionSignature(secret, expires)}`;
+}
+
+export function isAdminSession(value: string | undefined, now = Date.now()) {
+  const secret = process.env.ADMIN_SECRET;
+  if (!secret || !value) return false;
+
+  const [rawExpires, signature = ""] = value.split(".");
+  const expires = Number(rawExpires);
+  if (!Number.isInteger(expires) || expires * 1000 <= now) return false;
+  return secretMatches(signature, sessionSignature(secret, expires));
+}
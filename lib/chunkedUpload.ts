@@ -0,0 +1,254 @@
+// lib/chunkedUpload.ts
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { verifyPendingToken } from "@/lib/pendingToken";
+import { getKv, type KvStore } from "@/lib/store";
+import {
+  readUpload,
+  recordUploadProgress,
+  type UploadRecord,
+} from "@/lib/uploadStore";
+import { vimeoTusHead, vimeoTusPatch } from "@/lib/vimeo";
+
+// Server-side chunked uploads, for clients that can't speak tus: create-upload
+// with approach "chunked" reserves a tus upload on Vimeo as usual, then the
+// client PUTs numbered chunks to us (app/api/vimeo/chunked) and asks us to
+// complete, at which point we forward them to Vimeo in order.
+//
+//   CHUNKED_UPLOADS             "on" or "off" (default off on Vercel, on
+//                               elsewhere; see below)
+//   CHUNKED_UPLOAD_DIR          where chunks wait (default <tmpdir>/vimeo-chunks)
+//   CHUNKED_UPLOAD_CHUNK_BYTES  chunk size handed to clients (default 3 MiB,
+//                               between 256 KiB and 4 MiB: each chunk is one
+//                               request body, and Vercel functions refuse
+//                               bodies over 4.5 MB)
+//
+// Which chunks arrived is kept in the store, so a client can ask where to
+// resume. The bytes themselves only live on this instance's disk, so the
+// chunked API needs a single long-running instance (or a shared volume at
+// CHUNKED_UPLOAD_DIR). Serverless deployments spread chunks over instances
+// that share nothing, which is why create-upload refuses "chunked" there.
+// A chunk whose file has gone missing is dropped from the store and simply
+// asked for again.
+
+const MIN_CHUNK_BYTES = 256 * 1024;
+const MAX_CHUNK_BYTES = 4 * 1024 * 1024;
+const DEFAULT_CHUNK_BYTES = 3 * 1024 * 1024;
+
+// received chunks outlive the pending record a little, never the other way round
+const STATE_TTL_SECONDS = 24 * 60 * 60;
+
+export type ChunkPlan = { chunk_size: number; total_chunks: number };
+
+export type ChunkedUploadRecord = UploadRecord & {
+  upload_link: string;
+  size: number;
+  chunked: ChunkPlan & { completed_at?: string };
+};
+
+/** Whether this deployment can take chunked uploads (see CHUNKED_UPLOADS). */
+export function chunkedUploadsEnabled(env: NodeJS.ProcessEnv = process.env) {
+  const setting = (env.CHUNKED_UPLOADS || "").trim().toLowerCase();
+  if (setting === "on") return true;
+  if (setting === "off") return false;
+  return !env.VERCEL;
+}
+
+export function chunkSize() {
+  const n = Number(process.env.CHUNKED_UPLOAD_CHUNK_BYTES);
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_CHUNK_BYTES;
+  return Math.min(Math.max(Math.floor(n), MIN_CHUNK_BYTES), MAX_CHUNK_BYTES);
+}
+
+export function planChunks(size: number, chunk_size = chunkSize()): ChunkPlan {
+  return {
+    chunk_size,
+    total_chunks: Math.max(1, Math.ceil(size / chunk_size)),
+  };
+}
+
+/** How many bytes chunk `index` must have; the last one is usually short. */
+export function expectedChunkLength(
+  plan: ChunkPlan,
+  size: number,
+  index: number
+) {
+  if (index < plan.total_chunks - 1) return plan.chunk_size;
+  return size - plan.chunk_size * (plan.total_chunks - 1);
+}
+
+/** Accepts "sha256=<hex>" or a bare hex SHA-256; null for anything else. */
+export function parseChecksum(header: string | null) {
+  const hex = (header || "")
+    .trim()
+    .replace(/^sha256[=:]\s*/i, "")
+    .toLowerCase();
+  return /^[0-9a-f]{64}$/.test(hex) ? hex : null;
+}
+
+export function sha256Hex(bytes: Uint8Array) {
+  return crypto.createHash("sha256").update(bytes).digest("hex");
+}
+
+// Tokens are long and dotted; their hash makes a tidy directory/key name
+function uploadId(pending_token: string) {
+  return crypto
+    .createHash("sha256")
+    .update(pending_token)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function chunksKey(pending_token: string) {
+  return `vimeo:chunks:${uploadId(pending_token)}`;
+}
+
+function chunkDir(pending_token: string) {
+  const root =
+    process.env.CHUNKED_UPLOAD_DIR || path.join(os.tmpdir(), "vimeo-chunks");
+  return path.join(root, uploadId(pending_token));
+}
+
+function chunkFile(pending_token: string, index: number) {
+  return path.join(chunkDir(pending_token), `${index}.part`);
+}
+
+/** Lock name so only one request forwards a given upload at a time. */
+export function completeLockName(pending_token: string) {
+  return `chunked:${uploadId(pending_token)}`;
+}
+
+/** The record behind a chunked-upload URL; null for bad tokens and other approaches. */
+export async function readChunkedUpload(
+  pending_token: string
+): Promise<ChunkedUploadRecord | null> {
+  if (!verifyPendingToken(pending_token).ok) return null;
+  const rec = await readUpload(pending_token);
+  if (!rec?.chunked || !rec.upload_link || rec.size == null) return null;
+  return rec as ChunkedUploadRecord;
+}
+
+/** Chunk indexes received so far, in order. */
+export async function receivedChunks(
+  pending_token: string,
+  kv: KvStore = getKv()
+) {
+  const members = await kv.zrangeByScore(
+    chunksKey(pending_token),
+    -Infinity,
+    Infinity
+  );
+  return members.map(Number).filter(Number.isInteger);
+}
+
+export function missingChunks(plan: ChunkPlan, received: number[]) {
+  const have = new Set(received);
+  return Array.from({ length: plan.total_chunks }, (_, i) => i).filter(
+    (i) => !have.has(i)
+  );
+}
+
+/**
+ * Writes one chunk (whole file or nothing: temp file + rename) and notes it
+ * in the store. Sending the same chunk again just replaces it.
+ */
+export async function saveChunk(
+  pending_token: string,
+  index: number,
+  bytes: Uint8Array,
+  kv: KvStore = getKv()
+) {
+  const file = chunkFile(pending_token, index);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+  await fs.writeFile(tmp, bytes);
+  await fs.rename(tmp, file);
+
+  const key = chunksKey(pending_token);
+  await kv.zadd(key, { score: index, member: String(index) });
+  await kv.expire(key, STATE_TTL_SECONDS);
+}
+
+/** Removes the chunk files and the received-chunk state. */
+export async function discardChunks(
+  pending_token: string,
+  kv: KvStore = getKv()
+) {
+  await fs.rm(chunkDir(pending_token), { recursive: true, force: true });
+  await kv.del(chunksKey(pending_token));
+}
+
+export type ForwardResult =
+  | { ok: true; offset: number }
+  | { ok: false; reason: "missing_chunks"; missing: number[] }
+  | { ok: false; reason: "vimeo_rejected"; status: number; offset: number };
+
+/**
+ * Sends every chunk to the record's Vimeo upload_link in order, skipping
+ * whatever Vimeo already has (a previous complete may have died halfway).
+ * Vimeo errors (timeouts, rate limits) are thrown.
+ */
+export async function forwardChunks(
+  rec: ChunkedUploadRecord,
+  kv: KvStore = getKv()
+): Promise<ForwardResult> {
+  const plan = rec.chunked;
+  const missing = missingChunks(
+    plan,
+    await receivedChunks(rec.pending_token, kv)
+  );
+
+  // the store may remember chunks this instance's disk doesn't have
+  for (let i = 0; i < plan.total_chunks; i++) {
+    if (missing.includes(i)) continue;
+    const exists = await fs
+      .stat(chunkFile(rec.pending_token, i))
+      .then((st) => st.size === expectedChunkLength(plan, rec.size, i))
+      .catch(() => false);
+    if (!exists) {
+      await kv.zrem(chunksKey(rec.pending_token), String(i));
+      missing.push(i);
+    }
+  }
+  if (missing.length) {
+    return {
+      ok: false,
+      reason: "missing_chunks",
+      missing: missing.sort((a, b) => a - b),
+    };
+  }
+
+  const head = await vimeoTusHead(rec.upload_link);
+  let offset =
+    head.ok && head.offset != null ? head.offset : (rec.upload_offset ?? 0);
+
+  while (offset < rec.size) {
+    // resume inside whichever chunk Vimeo's offset falls in
+    const i = Math.floor(offset / plan.chunk_size);
+    const bytes = await fs.readFile(chunkFile(rec.pending_token, i));
+    const body = new Uint8Array(bytes.subarray(offset - i * plan.chunk_size));
+    const patch = await vimeoTusPatch(rec.upload_link, {
+      offset,
+      body,
+      contentLength: body.byteLength,
+    });
+    if (!patch.ok || patch.offset == null || patch.offset <= offset) {
+      return {
+        ok: false,
+        reason: "vimeo_rejected",
+        status: patch.status,
+        offset,
+      };
+    }
+
+    offset = patch.offset;
+    await recordUploadProgress(rec.pending_token, {
+      offset,
+      at: new Date().toISOString(),
+    });
+  }
+
+  return { ok: true, offset };
+}
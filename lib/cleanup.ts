@@ -0,0 +1,649 @@
+// lib/cleanup.ts
+import { recordAudit, type AuditSource } from "@/lib/audit";
+import { discardChunks } from "@/lib/chunkedUpload";
+import {
+  cleanupRunRecord,
+  recordCleanupRun,
+  type CleanupTrigger,
+} from "@/lib/cleanupRuns";
+import { acquireLock, readLock } from "@/lib/lock";
+import { logger } from "@/lib/log";
+import { incrementCounter } from "@/lib/metrics";
+import { deliverDueWebhooks, emitWebhook } from "@/lib/outgoingWebhooks";
+import {
+  DEFAULT_PROFILE,
+  loadProfiles,
+  vimeoForProfile,
+  type UploadProfile,
+} from "@/lib/profiles";
+import { quarantineEndsAt, quarantineUpload } from "@/lib/quarantine";
+import { getKv } from "@/lib/store";
+import type { UploadState } from "@/lib/uploadLifecycle";
+import { refreshUploadStatus } from "@/lib/uploadStatus";
+import type { VimeoClient } from "@/lib/vimeo";
+import { VimeoRateLimitError } from "@/lib/vimeoErrors";
+import {
+  indexPosition,
+  listExpiredPending,
+  markDeleted,
+  readUpload,
+  recordDeleteFailure,
+  updateUpload,
+  type IndexPosition,
+  type UploadRecord,
+} from "@/lib/uploadStore";
+
+// Deletes Vimeo videos for uploads nobody confirmed (see app/api/vimeo/cleanup).
+//
+//   CLEANUP_CONCURRENCY     parallel Vimeo deletes per run (default 4, max 10)
+//   CLEANUP_TIME_BUDGET_MS  stop starting new records after this long (default 8000),
+//                           so a run finishes before the serverless timeout
+//   CLEANUP_MAX_DELETE_ATTEMPTS  failed Vimeo deletes before a record is
+//                                dead-lettered (default 5)
+//   CLEANUP_RETRY_BASE_SECONDS   first backoff after a failed delete, doubled per
+//                                attempt (default 300)
+//   CLEANUP_RETRY_MAX_SECONDS    backoff cap (default 21600, 6h)
+//
+// A 429 (or an exhausted rate-limit window) isn't the video's fault: it doesn't
+// count as an attempt, but it does stop the run and hold that record off for
+// as long as Vimeo's Retry-After / X-RateLimit-Reset asks.
+//
+// Profiles with a quarantine folder get quarantine-before-delete instead: an
+// expired upload is first moved there (see lib/quarantine.ts) and only deleted
+// on a later run, once its grace period is over. Failed uploads skip it.
+//
+// A run walks the pending index oldest first and hands back `next_cursor` for
+// the records it didn't reach. Without an explicit cursor the route resumes
+// from the one the previous run saved, so cron works through a large backlog
+// a page per tick and starts over once it reaches the end.
+
+const log = logger("cleanup");
+
+export const MAX_CONCURRENCY = 10;
+export const DEFAULT_MINUTES = 24 * 60;
+export const DEFAULT_LIMIT = 25;
+
+const LOCK_NAME = "cleanup";
+// a crashed run holds the lock for at most its time budget plus this much
+const LOCK_GRACE_SECONDS = 60;
+
+const CURSOR_KEY = "vimeo:cleanup:cursor";
+const CURSOR_TTL_SECONDS = 24 * 60 * 60;
+
+export type CleanupItem = {
+  pending_token: string;
+  video_id: string;
+  state: UploadState;
+  created_at: string | null;
+  profile?: string;
+  skipped?: string;
+  ttl_minutes?: number;
+  transcode_status?: string | null;
+  status_error?: string;
+  reason?: string;
+  would_delete?: boolean;
+  would_quarantine?: boolean;
+  quarantined?: boolean;
+  quarantine_until?: string;
+  vimeo_status?: number;
+  delete_attempts?: number;
+  next_attempt_at?: string | null;
+  dead_lettered?: boolean;
+  deleted_on_vimeo?: boolean;
+  vimeo_error?: string;
+  mark_result?: unknown;
+  mark_error?: string;
+  error?: string;
+};
+
+export type CleanupOptions = {
+  /** Default age (minutes) before an unconfirmed upload is deleted. */
+  minutes: number;
+  limit: number;
+  dryRun?: boolean;
+  concurrency?: number;
+  budgetMs?: number;
+  /** Resume just past this index position; null starts at the oldest record. */
+  cursor?: IndexPosition | null;
+};
+
+export type CleanupRun = {
+  cutoffISO: string;
+  dry_run: boolean;
+  found: number;
+  processed: number;
+  deleted: number;
+  would_delete: number;
+  quarantined: number;
+  would_quarantine: number;
+  /** Pass back as ?cursor= to continue; null once the index has been walked to the end. */
+  next_cursor: string | null;
+  stopped_early: "time_budget" | "rate_limited" | null;
+  results: CleanupItem[];
+};
+
+function envInt(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+export function cleanupDefaults() {
+  return {
+    concurrency: Math.min(envInt("CLEANUP_CONCURRENCY", 4), MAX_CONCURRENCY),
+    budgetMs: envInt("CLEANUP_TIME_BUDGET_MS", 8000),
+    maxDeleteAttempts: envInt("CLEANUP_MAX_DELETE_ATTEMPTS", 5),
+    retryBaseSeconds: envInt("CLEANUP_RETRY_BASE_SECONDS", 300),
+    retryMaxSeconds: envInt("CLEANUP_RETRY_MAX_SECONDS", 6 * 60 * 60),
+  };
+}
+
+/** Exponential backoff after `attempts` failures, never shorter than Vimeo asked for. */
+export function deleteBackoffSeconds(
+  attempts: number,
+  retryAfter: number | null,
+  policy: {
+    retryBaseSeconds: number;
+    retryMaxSeconds: number;
+  } = cleanupDefaults()
+) {
+  const exp = policy.retryBaseSeconds * 2 ** Math.max(0, attempts - 1);
+  return Math.max(Math.min(exp, policy.retryMaxSeconds), retryAfter ?? 0);
+}
+
+export function encodeCursor(pos: IndexPosition) {
+  return Buffer.from(JSON.stringify([pos.score, pos.token])).toString(
+    "base64url"
+  );
+}
+
+/** Null for anything that isn't a cursor this module produced. */
+export function decodeCursor(raw: string): IndexPosition | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      Number.isFinite(parsed[0]) &&
+      typeof parsed[1] === "string"
+    ) {
+      return { score: parsed[0], token: parsed[1] };
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+/** The cursor the last (non-dry) run left behind. */
+export async function loadSavedCursor() {
+  const raw = await getKv().get<string>(CURSOR_KEY);
+  return raw ? decodeCursor(raw) : null;
+}
+
+export async function saveCursor(cursor: string | null) {
+  if (cursor) await getKv().set(CURSOR_KEY, cursor, { ex: CURSOR_TTL_SECONDS });
+  else await getKv().del(CURSOR_KEY);
+}
+
+/** A real run was asked for while another one holds the cleanup lock. */
+export class CleanupInProgressError extends Error {
+  constructor(readonly lockedSince: string | null) {
+    super("cleanup_in_progress");
+    this.name = "CleanupInProgressError";
+  }
+}
+
+/**
+ * runCleanup the way the route and the dashboard want it: real runs hold the
+ * cleanup lock and save where they stopped, every run lands in the run log
+ * (lib/cleanupRuns.ts) and every delete in the audit log, credited to `source`.
+ * `cursor: undefined` resumes from the saved one.
+ * Throws CleanupInProgressError if the lock is taken.
+ */
+export async function startCleanup(
+  opts: CleanupOptions & { trigger: CleanupTrigger; source: AuditSource }
+) {
+  const dryRun = !!opts.dryRun;
+  const budgetMs = opts.budgetMs ?? cleanupDefaults().budgetMs;
+
+  // Dry runs change nothing, so they don't need to exclude a real run
+  const lock = dryRun
+    ? null
+    : await acquireLock(LOCK_NAME, budgetMs / 1000 + LOCK_GRACE_SECONDS);
+  if (!dryRun && !lock) {
+    const held = await readLock(LOCK_NAME);
+    throw new CleanupInProgressError(held?.acquired_at ?? null);
+  }
+
+  const started_at = new Date().toISOString();
+  const startedMs = Date.now();
+  let run: CleanupRun;
+  try {
+    const cursor =
+      opts.cursor === undefined ? await loadSavedCursor() : opts.cursor;
+    run = await runCleanup({ ...opts, budgetMs, cursor });
+    if (!dryRun) await saveCursor(run.next_cursor);
+  } finally {
+    await lock?.release();
+  }
+
+  const record = cleanupRunRecord(run, {
+    started_at,
+    finished_at: new Date().toISOString(),
+    trigger: opts.trigger,
+    minutes: opts.minutes,
+    limit: opts.limit,
+  });
+  if (!dryRun) {
+    const outcomes = {
+      deleted: record.deleted,
+      quarantined: record.quarantined,
+      failed: record.failed - record.dead_lettered,
+      dead_lettered: record.dead_lettered,
+    };
+    for (const [outcome, n] of Object.entries(outcomes)) {
+      if (n > 0) await incrementCounter("uploads_cleaned_total", { outcome }, n);
+    }
+  }
+
+  for (const item of run.results) {
+    if (item.quarantined) {
+      await recordAudit("upload.quarantine", opts.source, {
+        pending_token: item.pending_token,
+        video_id: item.video_id,
+        detail: { trigger: opts.trigger, until: item.quarantine_until },
+      });
+    }
+    if (!dryRun && item.delete_attempts != null) {
+      await queueWebhook("upload.delete_failed", item, {
+        error: item.vimeo_error ?? null,
+        attempts: item.delete_attempts,
+        next_attempt_at: item.next_attempt_at ?? null,
+        dead_lettered: !!item.dead_lettered,
+      });
+    }
+    if (!item.deleted_on_vimeo) continue;
+    await recordAudit("upload.delete", opts.source, {
+      pending_token: item.pending_token,
+      video_id: item.video_id,
+      detail: { trigger: opts.trigger, reason: item.reason ?? "expired" },
+    });
+    await queueWebhook("upload.deleted", item, {
+      reason: item.reason ?? "expired",
+    });
+  }
+
+  try {
+    await recordCleanupRun(record);
+  } catch (err: unknown) {
+    // the run itself went fine; a missing log line shouldn't turn it into a 500
+    log.warn("failed to record run", { error: err });
+  }
+
+  // sends what this run queued, plus earlier deliveries due a retry, in
+  // whatever is left of the run's time budget (the rest wait for the next run)
+  const remainingMs = budgetMs - (Date.now() - startedMs);
+  if (!dryRun && remainingMs > 0) {
+    try {
+      const webhooks = await deliverDueWebhooks({ budgetMs: remainingMs });
+      if (webhooks.attempted) log.info("webhook retries", { ...webhooks });
+    } catch (err: unknown) {
+      log.warn("webhook retries failed", { error: err });
+    }
+  }
+
+  return run;
+}
+
+/** Queues a webhook about a record this run touched; sent after the run. */
+async function queueWebhook(
+  type: Parameters<typeof emitWebhook>[0],
+  item: CleanupItem,
+  extra: Record<string, unknown>
+) {
+  const rec = await readUpload(item.pending_token).catch(() => null);
+  if (rec) await emitWebhook(type, rec, extra, { deliver: false });
+}
+
+/**
+ * Runs `fn` over `items` with at most `concurrency` in flight, in order.
+ * Stops starting new items once `keepGoing` says so; everything started is
+ * awaited, so the returned results are always a prefix of `items`.
+ */
+async function mapBounded<T, R>(
+  items: T[],
+  concurrency: number,
+  keepGoing: () => boolean,
+  fn: (item: T) => Promise<R>
+) {
+  const results: R[] = [];
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length && keepGoing()) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  }
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+export async function runCleanup(opts: CleanupOptions): Promise<CleanupRun> {
+  const defaults = cleanupDefaults();
+  const dryRun = !!opts.dryRun;
+  const concurrency = Math.min(
+    opts.concurrency ?? defaults.concurrency,
+    MAX_CONCURRENCY
+  );
+  const budgetMs = opts.budgetMs ?? defaults.budgetMs;
+  const startedAt = Date.now();
+
+  // Profiles may set their own TTL; scan back to the shortest one and let
+  // each record's profile decide below
+  const profiles = loadProfiles();
+  const ttlMinutes = (name: string) =>
+    profiles.get(name)?.cleanup_ttl_minutes ?? opts.minutes;
+  const scanMinutes = Math.min(
+    opts.minutes,
+    ...Array.from(profiles.keys()).map(ttlMinutes)
+  );
+
+  const now = Date.now();
+  const cutoffISO = new Date(now - scanMinutes * 60 * 1000).toISOString();
+
+  const pending = await listExpiredPending(cutoffISO, opts.limit, {
+    after: opts.cursor ?? undefined,
+  });
+
+  async function processRecord(rec: UploadRecord): Promise<CleanupItem> {
+    const { pending_token, video_id } = rec;
+
+    const item: CleanupItem = {
+      pending_token,
+      video_id,
+      state: rec.state,
+      created_at: rec.created_at ?? null,
+    };
+
+    if (!pending_token || !video_id) {
+      item.error = "missing_pending_token_or_video_id";
+      return item;
+    }
+
+    // SAFETY: skip if upload was already confirmed (form submitted) or is gone
+    if (
+      rec.state === "deleted" ||
+      (rec.state === "confirmed" && !rec.awaiting_transcode)
+    ) {
+      item.skipped = `already_${rec.state}`;
+      return item;
+    }
+
+    // Each video is deleted with the credentials of the account it was uploaded to
+    const profileName = rec.profile || DEFAULT_PROFILE;
+    const profile = profiles.get(profileName);
+    item.profile = profileName;
+    if (!profile) {
+      item.error = "unknown_profile";
+      return item;
+    }
+    const ttl = ttlMinutes(profileName);
+    if (Date.parse(rec.created_at) > now - ttl * 60 * 1000) {
+      item.skipped = "profile_ttl_not_reached";
+      item.ttl_minutes = ttl;
+      return item;
+    }
+
+    // Confirmed before Vimeo finished transcoding: only delete if the transcode errored
+    if (rec.state === "confirmed") {
+      try {
+        const { record, vimeo } = await refreshUploadStatus(rec, {
+          persist: !dryRun,
+        });
+        item.transcode_status = vimeo.transcode_status;
+
+        if (record.state !== "failed") {
+          if (!dryRun && (vimeo.ready || !vimeo.found)) {
+            await updateUpload(pending_token, { awaiting_transcode: false });
+          }
+          item.skipped = vimeo.ready
+            ? "confirmed_ready"
+            : "confirmed_awaiting_transcode";
+          return item;
+        }
+      } catch (err: unknown) {
+        item.status_error = String((err as Error)?.message || err);
+        return item;
+      }
+    }
+
+    // Failed uploads/transcodes never become playable, confirmed or not
+    if (rec.state === "failed" || item.transcode_status === "error") {
+      item.reason = "transcode_error";
+    }
+
+    // An admin put this one on hold
+    if (rec.cleanup_after && Date.parse(rec.cleanup_after) > now) {
+      item.skipped = "held";
+      item.next_attempt_at = rec.cleanup_after;
+      return item;
+    }
+
+    // An earlier delete failed; leave it alone until its backoff runs out
+    if (
+      rec.next_delete_attempt_at &&
+      Date.parse(rec.next_delete_attempt_at) > now
+    ) {
+      item.skipped = "retry_backoff";
+      item.delete_attempts = rec.delete_attempts ?? 0;
+      item.next_attempt_at = rec.next_delete_attempt_at;
+      return item;
+    }
+
+    if (rec.state === "quarantined") {
+      // parked earlier; deleted for good once the grace period is over
+      const until = quarantineEndsAt(rec);
+      if (Date.parse(until) > now) {
+        item.skipped = "quarantined";
+        item.quarantine_until = until;
+        return item;
+      }
+      item.reason = "quarantine_expired";
+    } else if (profile.quarantine_folder_id && !item.reason) {
+      if (dryRun) {
+        item.would_quarantine = true;
+        return item;
+      }
+      return await quarantine(rec, profile, item);
+    }
+
+    if (dryRun) {
+      item.would_delete = true;
+      return item;
+    }
+
+    // 1) Delete on Vimeo (record status/body so prod debugging is easy)
+    let del: Awaited<ReturnType<VimeoClient["deleteVideo"]>>;
+    try {
+      del = await vimeoForProfile(profile).deleteVideo(String(video_id));
+    } catch (err: unknown) {
+      item.deleted_on_vimeo = false;
+      item.vimeo_error = String((err as Error)?.message || err);
+      // our shared budget says Vimeo would refuse: same as a 429, minus the call
+      if (err instanceof VimeoRateLimitError) {
+        rateLimitedFor = Math.max(
+          rateLimitedFor ?? 0,
+          err.retryAfterSeconds ?? 0
+        );
+        return await noteDeleteFailure(rec, item, err.retryAfterSeconds, true);
+      }
+      return await noteDeleteFailure(rec, item, null, false);
+    }
+    item.vimeo_status = del.status;
+    if (del.rate_limited) {
+      rateLimitedFor = Math.max(
+        rateLimitedFor ?? 0,
+        del.retry_after_seconds ?? 0
+      );
+    }
+
+    if (del.ok) {
+      item.deleted_on_vimeo = true;
+
+      // 2) Only mark deleted in store if Vimeo delete succeeded
+      try {
+        const deletedAt = new Date().toISOString();
+        const res = await markDeleted(pending_token, deletedAt);
+        item.mark_result = typeof res === "undefined" ? "ok" : res;
+      } catch (err: unknown) {
+        item.mark_error = String((err as Error)?.message || err);
+      }
+      await dropChunks(rec);
+    } else {
+      item.deleted_on_vimeo = false;
+      item.vimeo_error = del.body || `status ${del.status}`;
+      item.mark_result = "skipped_mark_deleted_due_to_vimeo_failure";
+      return await noteDeleteFailure(
+        rec,
+        item,
+        del.retry_after_seconds,
+        del.status === 429
+      );
+    }
+
+    return item;
+  }
+
+  async function quarantine(
+    rec: UploadRecord,
+    profile: UploadProfile,
+    item: CleanupItem
+  ) {
+    try {
+      if (await quarantineUpload(rec, profile)) {
+        await dropChunks(rec);
+        item.quarantined = true;
+        item.quarantine_until = quarantineEndsAt({
+          ...rec,
+          quarantined_at: new Date().toISOString(),
+        });
+        return item;
+      }
+      item.vimeo_error = `quarantine folder ${profile.quarantine_folder_id} refused the video`;
+    } catch (err: unknown) {
+      item.vimeo_error = String((err as Error)?.message || err);
+      if (err instanceof VimeoRateLimitError) {
+        rateLimitedFor = Math.max(
+          rateLimitedFor ?? 0,
+          err.retryAfterSeconds ?? 0
+        );
+        return await noteDeleteFailure(rec, item, err.retryAfterSeconds, true);
+      }
+    }
+    // counts towards the same backoff and dead-lettering as a failed delete
+    item.quarantined = false;
+    return await noteDeleteFailure(rec, item, null, false);
+  }
+
+  // An abandoned chunked upload's chunks (and their state) are no use to
+  // anyone now; a completed one already cleared them
+  async function dropChunks(rec: UploadRecord) {
+    if (!rec.chunked || rec.chunked.completed_at) return;
+    try {
+      await discardChunks(rec.pending_token);
+    } catch (err: unknown) {
+      log.warn("failed to discard chunks", {
+        pending_token: rec.pending_token,
+        error: err,
+      });
+    }
+  }
+
+  async function noteDeleteFailure(
+    rec: UploadRecord,
+    item: CleanupItem,
+    retryAfter: number | null,
+    throttled: boolean
+  ) {
+    const previous = rec.delete_attempts ?? 0;
+    const attempts = throttled ? previous : previous + 1;
+    const deadLetter = !throttled && attempts >= defaults.maxDeleteAttempts;
+    const at = new Date().toISOString();
+    // throttling waits exactly as long as Vimeo asked; real failures back off
+    const waitSeconds = throttled
+      ? (retryAfter ?? defaults.retryBaseSeconds)
+      : deleteBackoffSeconds(attempts, retryAfter, defaults);
+    const nextAttemptAt = deadLetter
+      ? null
+      : new Date(Date.parse(at) + waitSeconds * 1000).toISOString();
+
+    await recordDeleteFailure(rec.pending_token, {
+      at,
+      error: `${item.vimeo_status ?? "error"}: ${item.vimeo_error ?? ""}`.slice(
+        0,
+        500
+      ),
+      attempts,
+      next_attempt_at: nextAttemptAt,
+      dead_letter: deadLetter,
+    });
+
+    item.delete_attempts = attempts;
+    item.next_attempt_at = nextAttemptAt;
+    if (deadLetter) item.dead_lettered = true;
+    return item;
+  }
+
+  let outOfTime = false;
+  // set once Vimeo throttles us; nothing else gets started this run
+  let rateLimitedFor: number | null = null;
+  const results = await mapBounded(
+    pending,
+    concurrency,
+    () => {
+      outOfTime = Date.now() - startedAt >= budgetMs;
+      return !outOfTime && rateLimitedFor == null;
+    },
+    // one bad record (e.g. a network error) mustn't sink the rest of the batch
+    (rec) =>
+      processRecord(rec).catch((err: unknown): CleanupItem => ({
+        pending_token: rec.pending_token,
+        video_id: rec.video_id,
+        state: rec.state,
+        created_at: rec.created_at ?? null,
+        error: String((err as Error)?.message || err),
+      }))
+  );
+
+  // Resume after the last record we reached; a short page means we hit the end
+  const resumeAt = results.length
+    ? indexPosition(pending[results.length - 1])
+    : (opts.cursor ?? null);
+  const reachedEnd =
+    results.length === pending.length && pending.length < opts.limit;
+  const next_cursor = resumeAt && !reachedEnd ? encodeCursor(resumeAt) : null;
+
+  return {
+    cutoffISO,
+    dry_run: dryRun,
+    found: pending.length,
+    processed: results.length,
+    deleted: results.filter((r) => r.deleted_on_vimeo).length,
+    would_delete: results.filter((r) => r.would_delete).length,
+    quarantined: results.filter((r) => r.quarantined).length,
+    would_quarantine: results.filter((r) => r.would_quarantine).length,
+    next_cursor,
+    stopped_early:
+      results.length < pending.length
+        ? rateLimitedFor != null
+          ? "rate_limited"
+          : outOfTime
+            ? "time_budget"
+            : null
+        : null,
+    results,
+  };
+}
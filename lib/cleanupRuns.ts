@@ -0,0 +1,100 @@
+// lib/cleanupRuns.ts
+import { getKv } from "@/lib/store";
+import type { CleanupItem, CleanupRun } from "@/lib/cleanup";
+
+// Every cleanup run, newest first, with what happened to each record it
+// looked at. Lives in the store (capped), so what we can audit doesn't depend
+// on how long Vercel keeps function logs. See app/api/vimeo/cleanup/history.
+
+const RUNS_KEY = "vimeo:cleanup:runs";
+const MAX_RUNS = 200;
+// a run over a huge backlog keeps its first items only (see items_truncated)
+const MAX_ITEMS_PER_RUN = 200;
+const MAX_ERROR_LENGTH = 300;
+
+export type CleanupTrigger = "api" | "dashboard";
+
+export type CleanupRunRecord = {
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  trigger: CleanupTrigger;
+  dry_run: boolean;
+  minutes: number;
+  limit: number;
+  cutoffISO: string;
+  found: number;
+  processed: number;
+  deleted: number;
+  would_delete: number;
+  quarantined: number;
+  would_quarantine: number;
+  /** Vimeo deletes that failed (or records that errored) this run. */
+  failed: number;
+  dead_lettered: number;
+  stopped_early: CleanupRun["stopped_early"];
+  next_cursor: string | null;
+  items: CleanupItem[];
+  items_truncated: boolean;
+};
+
+function trimItem(item: CleanupItem): CleanupItem {
+  const trimmed = { ...item };
+  if (trimmed.vimeo_error) {
+    trimmed.vimeo_error = trimmed.vimeo_error.slice(0, MAX_ERROR_LENGTH);
+  }
+  if (trimmed.error) trimmed.error = trimmed.error.slice(0, MAX_ERROR_LENGTH);
+  return trimmed;
+}
+
+export function cleanupRunRecord(
+  run: CleanupRun,
+  meta: {
+    started_at: string;
+    finished_at: string;
+    trigger: CleanupTrigger;
+    minutes: number;
+    limit: number;
+  }
+): CleanupRunRecord {
+  return {
+    ...meta,
+    duration_ms: Date.parse(meta.finished_at) - Date.parse(meta.started_at),
+    dry_run: run.dry_run,
+    cutoffISO: run.cutoffISO,
+    found: run.found,
+    processed: run.processed,
+    deleted: run.deleted,
+    would_delete: run.would_delete,
+    quarantined: run.quarantined,
+    would_quarantine: run.would_quarantine,
+    failed: run.results.filter(
+      (r) => r.error || r.deleted_on_vimeo === false || r.quarantined === false
+    ).length,
+    dead_lettered: run.results.filter((r) => r.dead_lettered).length,
+    stopped_early: run.stopped_early,
+    next_cursor: run.next_cursor,
+    items: run.results.slice(0, MAX_ITEMS_PER_RUN).map(trimItem),
+    items_truncated: run.results.length > MAX_ITEMS_PER_RUN,
+  };
+}
+
+export async function recordCleanupRun(record: CleanupRunRecord) {
+  const kv = getKv();
+  await kv.lpush(RUNS_KEY, record);
+  await kv.ltrim(RUNS_KEY, 0, MAX_RUNS - 1);
+}
+
+/** Newest first; `total` is how many runs are kept right now. */
+export async function listCleanupRuns(
+  opts: { offset?: number; count?: number } = {}
+) {
+  const kv = getKv();
+  const offset = opts.offset ?? 0;
+  const count = opts.count ?? 10;
+  const [total, runs] = await Promise.all([
+    kv.llen(RUNS_KEY),
+    kv.lrange<CleanupRunRecord>(RUNS_KEY, offset, offset + count - 1),
+  ]);
+  return { total, runs };
+}
@@ -0,0 +1,152 @@
+// lib/cors.ts
+import { NextResponse } from "next/server";
+
+// Shared origin policy for every browser-facing route.
+//
+//   CORS_ALLOWED_ORIGINS  comma-separated origins; "https://*.webflow.io" matches any
+//                         subdomain (not the apex), "*" allows everything
+//   CORS_STRICT=1         reject requests from other origins with 403 instead of
+//                         just withholding Access-Control-Allow-Origin
+//
+// Requests without an Origin header (cron, server-to-server) are never blocked.
+
+// host origins only (no paths)
+const DEFAULT_ALLOWED_ORIGINS = [
+  "https://eliseai.com",
+  "https://elise-ai-v3-7ffb9f5ea1acd5af317df8c7a1e.webflow.io",
+  "http://localhost:3000",
+  "http://localhost:5173",
+];
+
+const DEFAULT_ALLOW_HEADERS = ["Content-Type", "Authorization", "X-Requested-With"];
+// callers may pass their own request id and read back ours (lib/instrument.ts)
+const REQUEST_ID_HEADER = "X-Request-Id";
+
+export type OriginPattern =
+  | { kind: "any" }
+  | { kind: "exact"; origin: string }
+  | { kind: "subdomain"; protocol: string; suffix: string; port: string };
+
+export function normalizeOrigin(origin: string | null) {
+  if (!origin) return null;
+  try {
+    return new URL(origin).origin;
+  } catch {
+    return origin;
+  }
+}
+
+export function parseOriginPattern(raw: string): OriginPattern | null {
+  const value = raw.trim();
+  if (!value) return null;
+  if (value === "*") return { kind: "any" };
+
+  const wildcard = value.match(/^(https?):\/\/\*\.([^/:]+)(?::(\d+))?\/?$/i);
+  if (wildcard) {
+    return {
+      kind: "subdomain",
+      protocol: `${wildcard[1].toLowerCase()}:`,
+      suffix: `.${wildcard[2].toLowerCase()}`,
+      port: wildcard[3] ?? "",
+    };
+  }
+
+  const origin = normalizeOrigin(value);
+  return origin ? { kind: "exact", origin } : null;
+}
+
+export function originMatches(origin: string, patterns: OriginPattern[]) {
+  const normalized = normalizeOrigin(origin);
+  if (!normalized) return false;
+
+  let url: URL | null = null;
+  try {
+    url = new URL(normalized);
+  } catch {
+    // not a URL: only "*" can match
+  }
+
+  return patterns.some((p) => {
+    if (p.kind === "any") return true;
+    if (p.kind === "exact") return p.origin === normalized;
+    return (
+      !!url &&
+      url.protocol === p.protocol &&
+      url.port === p.port &&
+      url.hostname.endsWith(p.suffix) &&
+      url.hostname.length > p.suffix.length
+    );
+  });
+}
+
+export function loadOriginPatterns(env: string | undefined = process.env.CORS_ALLOWED_ORIGINS) {
+  const list = env != null && env.trim() ? env.split(",") : DEFAULT_ALLOWED_ORIGINS;
+  return list.map(parseOriginPattern).filter((p): p is OriginPattern => !!p);
+}
+
+function strictMode() {
+  return /^(1|true|yes)$/i.test(process.env.CORS_STRICT || "");
+}
+
+export type CorsRouteOptions = {
+  /** Methods this route answers (OPTIONS is added automatically). */
+  methods: string[];
+  allowHeaders?: string[];
+  exposeHeaders?: string[];
+  /** More origins to allow on top of CORS_ALLOWED_ORIGINS (e.g. upload profiles). */
+  extraOrigins?: () => OriginPattern[];
+};
+
+/**
+ * Builds the CORS helpers for one route. Usage:
+ *
+ *   const cors = corsPolicy({ methods: ["POST"] });
+ *   export const OPTIONS = cors.preflight;
+ *   // in handlers:
+ *   const blocked = cors.reject(req); if (blocked) return blocked;
+ *   NextResponse.json(body, { headers: cors.headers(req) });
+ */
+export function corsPolicy(route: CorsRouteOptions) {
+  const methods = Array.from(new Set([...route.methods, "OPTIONS"])).join(", ");
+  const allowHeaders = Array.from(
+    new Set([...(route.allowHeaders ?? DEFAULT_ALLOW_HEADERS), REQUEST_ID_HEADER])
+  ).join(", ");
+  const exposeHeaders = [...(route.exposeHeaders ?? []), REQUEST_ID_HEADER].join(", ");
+
+  function isAllowed(origin: string | null) {
+    if (!origin) return true;
+    const patterns = loadOriginPatterns();
+    if (route.extraOrigins) patterns.push(...route.extraOrigins());
+    return originMatches(origin, patterns);
+  }
+
+  function headers(req: Request): Record<string, string> {
+    const origin = req.headers.get("origin");
+    const h: Record<string, string> = {
+      "Access-Control-Allow-Methods": methods,
+      "Access-Control-Allow-Headers": allowHeaders,
+      "Access-Control-Expose-Headers": exposeHeaders,
+      Vary: "Origin",
+    };
+    if (origin && isAllowed(origin)) {
+      h["Access-Control-Allow-Origin"] = normalizeOrigin(origin) as string;
+    }
+    return h;
+  }
+
+  /** 403 for a disallowed Origin in strict mode; null when the request may proceed. */
+  function reject(req: Request) {
+    const origin = req.headers.get("origin");
+    if (!strictMode() || isAllowed(origin)) return null;
+    return NextResponse.json(
+      { error: "Origin not allowed" },
+      { status: 403, headers: headers(req) }
+    );
+  }
+
+  async function preflight(req: Request) {
+    return reject(req) ?? new NextResponse(null, { status: 204, headers: headers(req) });
+  }
+
+  return { headers, reject, preflight, isAllowed };
+}
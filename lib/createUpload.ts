@@ -0,0 +1,288 @@
+// lib/createUpload.ts
+import { NextResponse } from "next/server";
+import { chunkedUploadsEnabled, planChunks } from "@/lib/chunkedUpload";
+import { normalizeOrigin } from "@/lib/cors";
+import { checkImportUrl } from "@/lib/importUrl";
+import { logger, type Logger } from "@/lib/log";
+import { incrementCounter } from "@/lib/metrics";
+import { emitWebhook } from "@/lib/outgoingWebhooks";
+import { mintPendingToken } from "@/lib/pendingToken";
+import {
+  profileAllowsOrigin,
+  selectProfile,
+  vimeoForProfile,
+} from "@/lib/profiles";
+import { checkCreateUploadLimits, clientKeyFor } from "@/lib/rateLimit";
+import {
+  loadUploadPolicy,
+  validateUploadRequest,
+  type UploadApproach,
+  type ValidationIssue,
+} from "@/lib/uploadPolicy";
+import {
+  storePendingUpload,
+  updateUpload,
+  type UploadRecord,
+} from "@/lib/uploadStore";
+import { resolveUploadMetadata } from "@/lib/uploadMetadata";
+import { setUpNewVideo } from "@/lib/uploadSetup";
+import type { VimeoClient } from "@/lib/vimeo";
+import { vimeoErrorResponse } from "@/lib/vimeoErrors";
+
+// Reserving a video on Vimeo for one upload, shared by create-upload and
+// import (which is create-upload with the approach pinned to "pull").
+//
+// `approach` picks how the file gets to Vimeo (default "tus"):
+//   tus      upload_link is our tus proxy (app/api/vimeo/tus/[token])
+//   post     `form` is Vimeo's HTML upload form; `redirect_url` is optional
+//   pull     Vimeo downloads `link` itself; `size` is optional. `link` must
+//            pass lib/importUrl.ts
+//   chunked  plain PUTs of numbered chunks to us; see `chunked` in the response
+//            and app/api/vimeo/chunked/[token]. Off on serverless deployments
+//            (CHUNKED_UPLOADS in lib/chunkedUpload.ts)
+
+export type CreateUploadOptions = {
+  /** Log scope, e.g. "import". */
+  scope: string;
+  /** Overrides whatever approach the body asks for. */
+  approach?: UploadApproach;
+  /** What a Vimeo failure is reported as. */
+  failure: string;
+};
+
+// Best-effort: if this fails too the video is orphaned, so say so loudly
+async function deleteUnrecorded(
+  vimeo: VimeoClient,
+  video_id: string,
+  log: Logger
+) {
+  try {
+    const del = await vimeo.deleteVideo(video_id);
+    if (del.ok) return;
+    log.error("failed to delete unrecorded video", {
+      video_id,
+      status: del.status,
+    });
+  } catch (err: unknown) {
+    log.error("failed to delete unrecorded video", { video_id, error: err });
+  }
+}
+
+/**
+ * The whole create flow after CORS: rate limits, profile, validation, the
+ * Vimeo video and its setup, then the signed pending token and its record.
+ */
+export async function createUploadResponse(
+  req: Request,
+  headers: Record<string, string>,
+  opts: CreateUploadOptions
+) {
+  const log = logger(opts.scope);
+  const origin = req.headers.get("origin");
+
+  // Every call reserves Vimeo quota: throttle per client before doing anything
+  const client_key = clientKeyFor(req);
+  let limited: Awaited<ReturnType<typeof checkCreateUploadLimits>> = null;
+  try {
+    limited = await checkCreateUploadLimits(client_key);
+  } catch (err: unknown) {
+    // fail open: a store outage surfaces below when we try to record the upload
+    log.warn("rate limit check failed", { error: err });
+  }
+  if (limited) {
+    return NextResponse.json(
+      { error: limited.error, limit: limited.limit },
+      {
+        status: 429,
+        headers: {
+          ...headers,
+          "Retry-After": String(limited.retry_after_seconds),
+        },
+      }
+    );
+  }
+
+  const body = await req.json().catch(() => ({}));
+
+  const fields =
+    body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+
+  let selected: ReturnType<typeof selectProfile>;
+  try {
+    selected = selectProfile(req, fields.profile);
+  } catch (err: unknown) {
+    return NextResponse.json(
+      {
+        error: "Upload profiles misconfigured",
+        details: String((err as Error)?.message || err),
+      },
+      { status: 500, headers }
+    );
+  }
+  if (!selected.ok) {
+    return NextResponse.json(
+      "errors" in selected
+        ? { error: "validation_failed", errors: selected.errors }
+        : { error: selected.error },
+      { status: selected.status, headers }
+    );
+  }
+  const { profile } = selected;
+  if (!profileAllowsOrigin(profile, origin)) {
+    return NextResponse.json(
+      { error: "Origin not allowed for profile", profile: profile.name },
+      { status: 403, headers }
+    );
+  }
+
+  const policy = loadUploadPolicy();
+  if (profile.max_bytes) policy.maxBytes = profile.max_bytes;
+  const validated = validateUploadRequest(
+    opts.approach ? { ...fields, approach: opts.approach } : fields,
+    policy
+  );
+  const metadata = resolveUploadMetadata(fields.metadata);
+
+  const errors: ValidationIssue[] = [];
+  let link: string | null = null;
+  if (!validated.ok) {
+    errors.push(...validated.errors);
+  } else if (validated.value.approach === "pull") {
+    const source = await checkImportUrl(validated.value.link);
+    if (source.ok) link = source.url;
+    else errors.push(...source.errors);
+  } else if (
+    validated.value.approach === "chunked" &&
+    !chunkedUploadsEnabled()
+  ) {
+    errors.push({
+      field: "approach",
+      code: "approach_unavailable",
+      message: "Chunked uploads aren't available here; use tus or post.",
+    });
+  }
+  if (!metadata.ok) errors.push(...metadata.errors);
+  if (!validated.ok || !metadata.ok || errors.length) {
+    return NextResponse.json(
+      { error: "validation_failed", errors },
+      { status: 422, headers }
+    );
+  }
+  const { approach, size, name, redirect_url } = validated.value;
+
+  const vimeo = vimeoForProfile(profile);
+
+  try {
+    // a chunked upload is a tus upload that our server feeds
+    const created = await vimeo.createUpload({
+      approach: approach === "chunked" ? "tus" : approach,
+      size: size ?? undefined,
+      name,
+      link: link ?? undefined,
+      redirect_url: redirect_url ?? undefined,
+      metadata: metadata.value,
+    });
+
+    // Record the video before anything else can fail: cleanup only deletes
+    // videos it has a record for, so anything Vimeo created must land here
+    // (or be deleted again)
+    let pending_token: string;
+    let rec: UploadRecord;
+    const proxied = approach === "tus" || approach === "chunked";
+    const chunked = approach === "chunked" ? planChunks(size!) : undefined;
+    try {
+      // Option-C: mint a signed token bound to this video + origin & store the pending record
+      pending_token = mintPendingToken({
+        video_id: created.video_id,
+        origin: normalizeOrigin(origin),
+      });
+      rec = await storePendingUpload({
+        pending_token,
+        video_id: created.video_id,
+        created_at: new Date().toISOString(),
+        // post's link is Vimeo's form target, which the browser talks to directly
+        upload_link: proxied ? created.upload_link! : undefined,
+        size: size ?? undefined,
+        approach,
+        chunked,
+        client_key,
+        profile: profile.name,
+      });
+    } catch (err: unknown) {
+      await deleteUnrecorded(vimeo, created.video_id, log);
+      throw err;
+    }
+
+    const { folder_add_ok, tags_ok, embed_domains_ok } = await setUpNewVideo(
+      vimeo,
+      profile,
+      created.video_id,
+      metadata.value
+    );
+    if (profile.folder_id) {
+      try {
+        rec = (await updateUpload(pending_token, { folder_add_ok })) ?? rec;
+      } catch (err: unknown) {
+        log.warn("failed to record folder_add_ok", { error: err });
+      }
+    }
+
+    await incrementCounter("uploads_created_total", { profile: profile.name });
+    await emitWebhook("upload.created", rec, { approach });
+
+    const source_host = link ? new URL(link).hostname : undefined;
+    if (source_host) {
+      log.info("import", { video_id: created.video_id, source_host });
+    }
+
+    // tus uploads go through our proxy; Vimeo's link stays server-side
+    const upload_link =
+      approach === "tus"
+        ? new URL(`/api/vimeo/tus/${pending_token}`, req.url).toString()
+        : approach === "post"
+          ? created.upload_link
+          : null;
+    const chunkedUrl = new URL(`/api/vimeo/chunked/${pending_token}`, req.url);
+
+    return NextResponse.json(
+      {
+        ...created,
+        approach,
+        upload_link,
+        source_host,
+        chunked: chunked
+          ? {
+              ...chunked,
+              // PUT each chunk here ({index} from 0), then POST status_url
+              chunk_url: `${chunkedUrl}/{index}`,
+              status_url: chunkedUrl.toString(),
+            }
+          : undefined,
+        profile: profile.name,
+        folder_add_ok,
+        tags_ok,
+        embed_domains_ok,
+        pending_token,
+      },
+      { status: 200, headers }
+    );
+  } catch (err: unknown) {
+    const vimeoError = vimeoErrorResponse(err);
+    if (vimeoError) {
+      return NextResponse.json(
+        { ...vimeoError.body, message: opts.failure },
+        {
+          status: vimeoError.status,
+          headers: { ...headers, ...vimeoError.headers },
+        }
+      );
+    }
+    return NextResponse.json(
+      {
+        error: opts.failure,
+        details: String((err as Error)?.message || err),
+      },
+      { status: 500, headers }
+    );
+  }
+}
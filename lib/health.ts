@@ -0,0 +1,239 @@
+// lib/health.ts
+import { logger } from "@/lib/log";
+import {
+  DEFAULT_PROFILE,
+  loadProfiles,
+  vimeoForProfile,
+  type UploadProfile,
+} from "@/lib/profiles";
+import { configuredBackend, getKv, type KvStore } from "@/lib/store";
+import { accountKey } from "@/lib/vimeoBudget";
+
+// What /api/health reports, so a deploy can refuse to go live half-configured:
+//
+//   store  a write + read round trip against the upload store, with latency
+//   env    required settings present (and the recommended ones, as warnings)
+//   vimeo  per profile: the token is valid, carries the upload/delete/edit
+//          scopes, and the configured folder (and quarantine folder) exist
+//
+// Vimeo answers are cached in the store so a health check polled every few
+// seconds doesn't eat into the API rate limit:
+//
+//   HEALTH_VIMEO_CACHE_SECONDS  how long a Vimeo check is reused (default 300)
+//
+// Nothing here ever includes a secret, only the names of missing settings,
+// but the report still maps out the deployment: /api/health only shows it to
+// callers holding HEALTH_SECRET (see lib/auth.ts).
+
+const PING_KEY = "vimeo:health:ping";
+
+const REQUIRED_SCOPES = ["upload", "delete", "edit"];
+
+const REQUIRED_ENV = ["PENDING_TOKEN_SECRET"];
+const RECOMMENDED_ENV = ["CRON_SECRET", "ADMIN_SECRET"];
+
+const log = logger("health");
+
+export type StoreHealth = {
+  ok: boolean;
+  backend: string | null;
+  latency_ms: number | null;
+  error?: string;
+};
+
+export type EnvHealth = {
+  ok: boolean;
+  missing: string[];
+  warnings: string[];
+  error?: string;
+};
+
+export type VimeoHealth = {
+  profile: string;
+  ok: boolean;
+  token_valid: boolean;
+  status: number | null;
+  scopes: string[];
+  missing_scopes: string[];
+  folder_id: string | null;
+  /** null when the profile has no folder or the token couldn't be checked. */
+  folder_exists: boolean | null;
+  quarantine_folder_id: string | null;
+  quarantine_folder_exists: boolean | null;
+  checked_at: string;
+  cached: boolean;
+  error?: string;
+};
+
+export type HealthReport = {
+  ok: boolean;
+  checked_at: string;
+  store: StoreHealth;
+  env: EnvHealth;
+  vimeo: VimeoHealth[];
+};
+
+function cacheSeconds() {
+  const n = Number(process.env.HEALTH_VIMEO_CACHE_SECONDS);
+  return process.env.HEALTH_VIMEO_CACHE_SECONDS != null &&
+    Number.isFinite(n) &&
+    n >= 0
+    ? Math.floor(n)
+    : 300;
+}
+
+function message(err: unknown) {
+  return String((err as Error)?.message || err).slice(0, 300);
+}
+
+export async function checkStore(kv?: KvStore): Promise<StoreHealth> {
+  let backend: string | null = null;
+  const started = Date.now();
+  try {
+    backend = configuredBackend();
+    const store = kv ?? getKv();
+    const value = new Date().toISOString();
+    await store.set(PING_KEY, value, { ex: 60 });
+    const read = await store.get<string>(PING_KEY);
+    if (read !== value) throw new Error("read back a different value");
+    return { ok: true, backend, latency_ms: Date.now() - started };
+  } catch (err: unknown) {
+    return { ok: false, backend, latency_ms: null, error: message(err) };
+  }
+}
+
+export function checkEnv(env: NodeJS.ProcessEnv = process.env): EnvHealth {
+  const missing = REQUIRED_ENV.filter((name) => !env[name]);
+  const warnings = RECOMMENDED_ENV.filter((name) => !env[name]).map(
+    (name) => `${name} is not set`
+  );
+  if (env.WEBHOOK_URLS?.trim() && !env.WEBHOOK_SECRET) {
+    warnings.push(
+      "WEBHOOK_URLS is set but WEBHOOK_SECRET is not: no webhooks are sent"
+    );
+  }
+
+  try {
+    for (const p of loadProfiles(env).values()) {
+      if (!p.vimeo_token) {
+        missing.push(
+          p.name === DEFAULT_PROFILE
+            ? "VIMEO_TOKEN"
+            : `UPLOAD_PROFILES.${p.name}.vimeo_token`
+        );
+      }
+    }
+  } catch (err: unknown) {
+    return { ok: false, missing, warnings, error: message(err) };
+  }
+
+  return { ok: missing.length === 0, missing, warnings };
+}
+
+async function checkProfile(profile: UploadProfile): Promise<VimeoHealth> {
+  const base = {
+    profile: profile.name,
+    folder_id: profile.folder_id || null,
+    quarantine_folder_id: profile.quarantine_folder_id || null,
+    checked_at: new Date().toISOString(),
+    cached: false,
+  };
+  const unchecked = {
+    ...base,
+    ok: false,
+    token_valid: false,
+    status: null,
+    scopes: [],
+    missing_scopes: REQUIRED_SCOPES,
+    folder_exists: null,
+    quarantine_folder_exists: null,
+  };
+  if (!profile.vimeo_token)
+    return { ...unchecked, error: "no Vimeo token configured" };
+
+  try {
+    const client = vimeoForProfile(profile);
+    const token = await client.verifyToken();
+    const missing_scopes = REQUIRED_SCOPES.filter(
+      (s) => !token.scopes.includes(s)
+    );
+    const folder_exists =
+      token.ok && profile.folder_id
+        ? await client.folderExists(profile.folder_id)
+        : null;
+    const quarantine_folder_exists =
+      token.ok && profile.quarantine_folder_id
+        ? await client.folderExists(profile.quarantine_folder_id)
+        : null;
+
+    return {
+      ...base,
+      ok:
+        token.ok &&
+        missing_scopes.length === 0 &&
+        folder_exists !== false &&
+        quarantine_folder_exists !== false,
+      token_valid: token.ok,
+      status: token.status,
+      scopes: token.scopes,
+      missing_scopes,
+      folder_exists,
+      quarantine_folder_exists,
+    };
+  } catch (err: unknown) {
+    return { ...unchecked, error: message(err) };
+  }
+}
+
+/**
+ * Token + folder check for one profile, reused from the store for
+ * HEALTH_VIMEO_CACHE_SECONDS. Only definite answers are cached; a timeout or
+ * outage is checked again next time. Pass a null store to skip the cache.
+ */
+export async function checkVimeoProfile(
+  profile: UploadProfile,
+  kv: KvStore | null = getKv()
+): Promise<VimeoHealth> {
+  const ttl = cacheSeconds();
+  const cache = ttl > 0 ? kv : null;
+  const key = `vimeo:health:vimeo:${profile.name}:${accountKey(profile.vimeo_token)}:${profile.folder_id}:${profile.quarantine_folder_id}`;
+
+  if (cache) {
+    const hit = await cache.get<VimeoHealth>(key).catch(() => null);
+    if (hit) return { ...hit, cached: true };
+  }
+
+  const result = await checkProfile(profile);
+  if (cache && !result.error) {
+    await cache.set(key, result, { ex: ttl }).catch((err: unknown) => {
+      log.warn("failed to cache Vimeo check", { error: err });
+    });
+  }
+  return result;
+}
+
+export async function checkHealth(): Promise<HealthReport> {
+  const checked_at = new Date().toISOString();
+  const store = await checkStore();
+  const env = checkEnv();
+
+  let profiles: UploadProfile[] = [];
+  try {
+    profiles = Array.from(loadProfiles().values());
+  } catch {
+    // already reported under env
+  }
+  // a broken store still gets its Vimeo checks, just uncached
+  const kv = store.ok ? getKv() : null;
+  const vimeo = await Promise.all(
+    profiles.map((p) => checkVimeoProfile(p, kv))
+  );
+
+  return {
+    ok: store.ok && env.ok && vimeo.every((v) => v.ok),
+    checked_at,
+    store,
+    env,
+    vimeo,
+  };
+}
@@ -0,0 +1,195 @@
+// lib/importUrl.ts
+import { promises as dns } from "dns";
+import net from "net";
+import type { ValidationIssue } from "@/lib/uploadPolicy";
+
+// Which source URLs Vimeo may be asked to pull from (app/api/vimeo/import and
+// create-upload's "pull" approach). Vimeo does the fetching, but we still
+// refuse to point it at anything but public hosts we expect video on.
+//
+//   IMPORT_ALLOWED_SCHEMES  comma-separated (default "https")
+//   IMPORT_ALLOWED_HOSTS    comma-separated host names; "*.dropbox.com" matches
+//                           any subdomain (not the apex), "*" allows any public
+//                           host (default Google Drive and Dropbox)
+//
+// Links with credentials or a non-default port are refused, and so is any
+// host that is, or resolves to, a private, loopback, link-local or otherwise
+// non-public address. The check runs once, when the upload is created.
+
+const DEFAULT_SCHEMES = "https";
+const DEFAULT_HOSTS = [
+  "drive.google.com",
+  "drive.usercontent.google.com",
+  "*.googleusercontent.com",
+  "www.dropbox.com",
+  "dl.dropbox.com",
+  "*.dropboxusercontent.com",
+].join(",");
+
+export type ImportUrlPolicy = {
+  schemes: string[];
+  hosts: string[];
+};
+
+/** Resolves a host name to every address it has. */
+export type HostLookup = (host: string) => Promise<string[]>;
+
+// IANA special-purpose ranges: nothing in here is a public web server
+const NON_PUBLIC = new net.BlockList();
+for (const [net4, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC.addSubnet(net4, prefix, "ipv4");
+}
+for (const [net6, prefix] of [
+  ["::", 96],
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["100::", 64],
+  ["2001::", 23],
+  ["2001:db8::", 32],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(net6, prefix, "ipv6");
+}
+
+function list(value: string | undefined, fallback: string) {
+  return (value?.trim() ? value : fallback)
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function loadImportUrlPolicy(
+  env: NodeJS.ProcessEnv = process.env
+): ImportUrlPolicy {
+  return {
+    schemes: list(env.IMPORT_ALLOWED_SCHEMES, DEFAULT_SCHEMES).map((s) =>
+      s.replace(/:$/, "")
+    ),
+    hosts: list(env.IMPORT_ALLOWED_HOSTS, DEFAULT_HOSTS),
+  };
+}
+
+function hostAllowed(host: string, patterns: string[]) {
+  return patterns.some((p) =>
+    p === "*"
+      ? true
+      : p.startsWith("*.")
+        ? host.endsWith(p.slice(1))
+        : host === p
+  );
+}
+
+/** True for addresses no public file host lives on, IPv4-mapped ones included. */
+export function isNonPublicAddress(address: string) {
+  const family = net.isIP(address);
+  if (!family) return true;
+  if (family === 4) return NON_PUBLIC.check(address, "ipv4");
+
+  // ::ffff:a.b.c.d carries an IPv4 address, in either notation
+  const embedded = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (embedded) return isNonPublicAddress(embedded[1]);
+  const mapped = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (mapped) {
+    const n = (parseInt(mapped[1], 16) << 16) | parseInt(mapped[2], 16);
+    return isNonPublicAddress(
+      [n >>> 24, (n >>> 16) & 255, (n >>> 8) & 255, n & 255].join(".")
+    );
+  }
+  return NON_PUBLIC.check(address, "ipv6");
+}
+
+const systemLookup: HostLookup = async (host) =>
+  (await dns.lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+
+function issue(code: string, message: string) {
+  return { ok: false as const, errors: [{ field: "link", code, message }] };
+}
+
+/**
+ * Checks a source URL against the policy, resolving its host to make sure it
+ * only points at public addresses. Returns the normalized URL.
+ */
+export async function checkImportUrl(
+  raw: unknown,
+  policy: ImportUrlPolicy = loadImportUrlPolicy(),
+  lookup: HostLookup = systemLookup
+): Promise<
+  { ok: true; url: string } | { ok: false; errors: ValidationIssue[] }
+> {
+  let url: URL;
+  try {
+    url = new URL(typeof raw === "string" ? raw.trim() : "");
+  } catch {
+    return issue("invalid_link", "The video link must be a URL.");
+  }
+
+  const scheme = url.protocol.replace(/:$/, "");
+  if (!policy.schemes.includes(scheme)) {
+    return issue(
+      "scheme_not_allowed",
+      `The video link must start with ${policy.schemes.map((s) => `${s}://`).join(" or ")}.`
+    );
+  }
+  if (url.username || url.password) {
+    return issue(
+      "link_has_credentials",
+      "The video link can't contain a user name or password."
+    );
+  }
+  // URL drops the port when it's the scheme's default
+  if (url.port) {
+    return issue("port_not_allowed", "The video link can't use a custom port.");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (!hostAllowed(host, policy.hosts)) {
+    return issue(
+      "host_not_allowed",
+      "Videos can't be imported from this site."
+    );
+  }
+
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = await lookup(host);
+    } catch {
+      addresses = [];
+    }
+    if (!addresses.length) {
+      return issue(
+        "unresolvable_host",
+        "The video link's site could not be found."
+      );
+    }
+  }
+  if (addresses.some(isNonPublicAddress)) {
+    return issue(
+      "private_address",
+      "Videos can't be imported from this address."
+    );
+  }
+
+  return { ok: true, url: url.toString() };
+}
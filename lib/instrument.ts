@@ -0,0 +1,46 @@
+// lib/instrument.ts
+import { logger, requestIdFor, runWithRequestContext } from "@/lib/log";
+import { recordTimed } from "@/lib/metrics";
+
+const log = logger("http");
+
+/**
+ * Wraps a route handler: gives the request an id (the caller's X-Request-Id
+ * when it sends one) that tags every log line written while handling it and
+ * comes back as X-Request-Id, and records request count and latency.
+ *
+ *   export const POST = instrumentRoute("create-upload", handlePost);
+ */
+export function instrumentRoute<A extends unknown[]>(
+  route: string,
+  handler: (req: Request, ...args: A) => Promise<Response>
+) {
+  return (req: Request, ...args: A) => {
+    const request_id = requestIdFor(req);
+    return runWithRequestContext({ request_id, route }, async () => {
+      const started = Date.now();
+      let status = 500;
+      try {
+        const resp = await handler(req, ...args);
+        status = resp.status;
+        try {
+          resp.headers.set("X-Request-Id", request_id);
+        } catch {
+          // proxied responses can have immutable headers; the logs still have the id
+        }
+        return resp;
+      } catch (err: unknown) {
+        log.error("unhandled error", { method: req.method, error: err });
+        throw err;
+      } finally {
+        const seconds = (Date.now() - started) / 1000;
+        const labels = { route, method: req.method };
+        await recordTimed(
+          { name: "http_requests_total", labels: { ...labels, status } },
+          { name: "http_request_duration_seconds", labels },
+          seconds
+        );
+      }
+    });
+  };
+}
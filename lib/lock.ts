@@ -0,0 +1,53 @@
+// lib/lock.ts
+import crypto from "crypto";
+import { getKv, type KvStore } from "@/lib/store";
+
+// Mutual exclusion across serverless invocations: SET NX with a TTL, so a
+// holder that crashes only blocks others until the TTL runs out.
+
+export type Lock = {
+  key: string;
+  owner: string;
+  acquired_at: string;
+  /** Drops the lock if we still hold it (it may have expired and been retaken). */
+  release(): Promise<void>;
+};
+
+type LockValue = { owner: string; acquired_at: string };
+
+function lockKey(name: string) {
+  return `vimeo:lock:${name}`;
+}
+
+/** Null when someone else holds `name`. */
+export async function acquireLock(
+  name: string,
+  ttlSeconds: number,
+  kv: KvStore = getKv()
+): Promise<Lock | null> {
+  const key = lockKey(name);
+  const value: LockValue = {
+    owner: crypto.randomBytes(12).toString("base64url"),
+    acquired_at: new Date().toISOString(),
+  };
+
+  const acquired = await kv.set(key, value, {
+    ex: Math.max(1, Math.ceil(ttlSeconds)),
+    nx: true,
+  });
+  if (!acquired) return null;
+
+  return {
+    key,
+    ...value,
+    async release() {
+      const held = await kv.get<LockValue>(key);
+      if (held?.owner === value.owner) await kv.del(key);
+    },
+  };
+}
+
+/** Who holds `name` right now, if anyone. */
+export async function readLock(name: string, kv: KvStore = getKv()) {
+  return await kv.get<LockValue>(lockKey(name));
+}
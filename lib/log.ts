@@ -0,0 +1,130 @@
+// lib/log.ts
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+
+// Structured logs: one JSON object per line on stdout/stderr, so Vercel's log
+// search (or whatever drains it) can filter by field instead of grepping text.
+// Lines written while a request is being handled carry its request_id (see
+// lib/instrument.ts), including the ones from lib code deep in the call.
+//
+//   LOG_LEVEL  debug | info | warn | error (default info)
+//
+// Fields are redacted on the way out: anything named like a secret is dropped,
+// and pending tokens become a short fingerprint that still lets you line up
+// entries for the same upload.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export type Logger = Record<
+  LogLevel,
+  (msg: string, fields?: LogFields) => void
+>;
+
+type RequestContext = { request_id: string; route: string };
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Keys whose values never get logged. pending_token is handled separately.
+const SECRET_KEY =
+  /secret|password|authorization|cookie|api[_-]?key|upload_link|^token$|_token$/i;
+// pending tokens (v1.<payload>.<sig>) and bearer credentials inside free text
+const PENDING_TOKEN = /\bv1\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g;
+const BEARER = /\bBearer\s+[^\s"',]+/gi;
+
+const MAX_DEPTH = 6;
+
+/** Stable short stand-in for a token: same token, same fingerprint. */
+export function fingerprint(value: string) {
+  const hash = crypto.createHash("sha256").update(value).digest("hex");
+  return `fp:${hash.slice(0, 12)}`;
+}
+
+function redactString(value: string) {
+  return value
+    .replace(PENDING_TOKEN, (t) => fingerprint(t))
+    .replace(BEARER, "Bearer [redacted]");
+}
+
+/** A copy of `value` that is safe to log. */
+export function redact(value: unknown, key = "", depth = 0): unknown {
+  if (key === "pending_token" && typeof value === "string") {
+    return fingerprint(value);
+  }
+  if (key && SECRET_KEY.test(key)) {
+    return value == null ? value : "[redacted]";
+  }
+  if (typeof value === "string") return redactString(value);
+  if (value == null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[truncated]";
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => redact(v, "", depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, redact(v, k, depth + 1)])
+  );
+}
+
+function threshold() {
+  const level = (process.env.LOG_LEVEL || "").toLowerCase() as LogLevel;
+  return LEVELS[level] ?? LEVELS.info;
+}
+
+function emit(level: LogLevel, scope: string, msg: string, fields?: LogFields) {
+  if (LEVELS[level] < threshold()) return;
+
+  const ctx = requestContext.getStore();
+  const line = JSON.stringify({
+    ts: new Date().toISOString(),
+    level,
+    scope,
+    msg,
+    ...(ctx ?? {}),
+    ...(fields ? (redact(fields) as LogFields) : {}),
+  });
+
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+/** A logger whose lines are tagged with `scope` ("cleanup", "tus", ...). */
+export function logger(scope: string): Logger {
+  return {
+    debug: (msg, fields) => emit("debug", scope, msg, fields),
+    info: (msg, fields) => emit("info", scope, msg, fields),
+    warn: (msg, fields) => emit("warn", scope, msg, fields),
+    error: (msg, fields) => emit("error", scope, msg, fields),
+  };
+}
+
+const INCOMING_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/** The caller's X-Request-Id if it looks sane, else Vercel's id, else a fresh one. */
+export function requestIdFor(req: Request) {
+  for (const name of ["x-request-id", "x-vercel-id"]) {
+    const value = req.headers.get(name)?.trim();
+    if (value && INCOMING_ID.test(value)) return value;
+  }
+  return crypto.randomUUID();
+}
+
+/** Runs `fn` with every log line inside it tagged with the request. */
+export function runWithRequestContext<T>(ctx: RequestContext, fn: () => T) {
+  return requestContext.run(ctx, fn);
+}
+
+export function currentRequestId() {
+  return requestContext.getStore()?.request_id ?? null;
+}
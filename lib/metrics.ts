@@ -0,0 +1,199 @@
+// lib/metrics.ts
+import { logger } from "@/lib/log";
+import { getKv, type KvStore } from "@/lib/store";
+
+// Counters and histograms for the upload pipeline. Serverless instances come
+// and go, so the numbers live in one store hash that every instance adds to;
+// app/api/metrics renders them in Prometheus text format.
+//
+// Histograms store one (non-cumulative) count per bucket plus the sum in
+// milliseconds; rendering turns that into Prometheus' cumulative `le` buckets.
+// Recording is best-effort: a store error is logged, never thrown.
+
+const METRICS_KEY = "vimeo:metrics";
+
+const BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const DEFINITIONS = {
+  uploads_created_total: {
+    type: "counter",
+    help: "Uploads created through create-upload.",
+  },
+  uploads_confirmed_total: {
+    type: "counter",
+    help: "Uploads confirmed by a form submission.",
+  },
+  uploads_cleaned_total: {
+    type: "counter",
+    help: "Cleanup outcomes for expired uploads (deleted, quarantined, failed, dead_lettered).",
+  },
+  webhook_deliveries_total: {
+    type: "counter",
+    help: "Outgoing webhook delivery attempts by event and outcome (delivered, failed, gave_up).",
+  },
+  vimeo_api_requests_total: {
+    type: "counter",
+    help: "Vimeo API calls by call and HTTP status (or timeout/network_error).",
+  },
+  vimeo_api_request_duration_seconds: {
+    type: "histogram",
+    help: "Vimeo API latency per attempt.",
+  },
+  http_requests_total: {
+    type: "counter",
+    help: "Requests to our routes by route and status.",
+  },
+  http_request_duration_seconds: {
+    type: "histogram",
+    help: "Time our routes took to answer.",
+  },
+} as const;
+
+export type MetricName = keyof typeof DEFINITIONS;
+type CounterName = {
+  [K in MetricName]: (typeof DEFINITIONS)[K]["type"] extends "counter"
+    ? K
+    : never;
+}[MetricName];
+type HistogramName = Exclude<MetricName, CounterName>;
+
+export type Labels = Record<string, string | number>;
+
+const log = logger("metrics");
+
+// Hash fields look like `name|k="v",k2="v2"|suffix`; suffix is "" for
+// counters and "le=<bound>", "sum_ms" or "count" for histograms.
+function labelString(labels: Labels) {
+  return Object.keys(labels)
+    .sort()
+    .map((k) => `${k}="${String(labels[k]).replace(/["\\\n]/g, "_")}"`)
+    .join(",");
+}
+
+function field(name: MetricName, labels: Labels, suffix = "") {
+  return `${name}|${labelString(labels)}|${suffix}`;
+}
+
+async function add(increments: Record<string, number>, kv: KvStore) {
+  try {
+    await kv.hincrby(METRICS_KEY, increments);
+  } catch (err: unknown) {
+    log.warn("failed to record metric", { error: (err as Error)?.message });
+  }
+}
+
+function counterFields(name: CounterName, labels: Labels, by: number) {
+  return { [field(name, labels)]: by };
+}
+
+function histogramFields(name: HistogramName, labels: Labels, seconds: number) {
+  const bucket = BUCKETS_SECONDS.find((b) => seconds <= b);
+  return {
+    [field(name, labels, `le=${bucket ?? "+Inf"}`)]: 1,
+    [field(name, labels, "sum_ms")]: Math.round(seconds * 1000),
+    [field(name, labels, "count")]: 1,
+  };
+}
+
+export async function incrementCounter(
+  name: CounterName,
+  labels: Labels = {},
+  by = 1,
+  kv: KvStore = getKv()
+) {
+  await add(counterFields(name, labels, by), kv);
+}
+
+export async function observeHistogram(
+  name: HistogramName,
+  labels: Labels,
+  seconds: number,
+  kv: KvStore = getKv()
+) {
+  await add(histogramFields(name, labels, seconds), kv);
+}
+
+/**
+ * Counts one timed event and observes how long it took, in a single store
+ * write: this runs on every request and every Vimeo call.
+ */
+export async function recordTimed(
+  counter: { name: CounterName; labels: Labels },
+  histogram: { name: HistogramName; labels: Labels },
+  seconds: number,
+  kv: KvStore = getKv()
+) {
+  await add(
+    {
+      ...counterFields(counter.name, counter.labels, 1),
+      ...histogramFields(histogram.name, histogram.labels, seconds),
+    },
+    kv
+  );
+}
+
+/** VimeoClient's default `observe` hook (lib/vimeo.ts). */
+export async function recordVimeoCall(call: {
+  what: string;
+  status: number | string;
+  seconds: number;
+}) {
+  await recordTimed(
+    {
+      name: "vimeo_api_requests_total",
+      labels: { call: call.what, status: call.status },
+    },
+    { name: "vimeo_api_request_duration_seconds", labels: { call: call.what } },
+    call.seconds
+  );
+}
+
+type Series = { labels: string; values: Map<string, number> };
+
+/** Everything recorded so far, in Prometheus text exposition format. */
+export async function renderMetrics(kv: KvStore = getKv()) {
+  const raw = await kv.hgetall(METRICS_KEY);
+
+  const byName = new Map<string, Map<string, Series>>();
+  for (const [key, value] of Object.entries(raw)) {
+    const [name, labels, suffix] = key.split("|");
+    if (!(name in DEFINITIONS)) continue;
+    const series = byName.get(name) ?? new Map<string, Series>();
+    byName.set(name, series);
+    const s = series.get(labels) ?? { labels, values: new Map() };
+    series.set(labels, s);
+    s.values.set(suffix ?? "", value);
+  }
+
+  const out: string[] = [];
+  for (const name of Object.keys(DEFINITIONS) as MetricName[]) {
+    const def = DEFINITIONS[name];
+    out.push(`# HELP ${name} ${def.help}`, `# TYPE ${name} ${def.type}`);
+
+    for (const s of byName.get(name)?.values() ?? []) {
+      const withLabels = (extra = "") => {
+        const all = [s.labels, extra].filter(Boolean).join(",");
+        return all ? `{${all}}` : "";
+      };
+
+      if (def.type === "counter") {
+        out.push(`${name}${withLabels()} ${s.values.get("") ?? 0}`);
+        continue;
+      }
+
+      let cumulative = 0;
+      for (const bound of BUCKETS_SECONDS) {
+        cumulative += s.values.get(`le=${bound}`) ?? 0;
+        out.push(`${name}_bucket${withLabels(`le="${bound}"`)} ${cumulative}`);
+      }
+      const count = s.values.get("count") ?? 0;
+      out.push(`${name}_bucket${withLabels('le="+Inf"')} ${count}`);
+      out.push(
+        `${name}_sum${withLabels()} ${(s.values.get("sum_ms") ?? 0) / 1000}`
+      );
+      out.push(`${name}_count${withLabels()} ${count}`);
+    }
+  }
+
+  return out.join("\n") + "\n";
+}
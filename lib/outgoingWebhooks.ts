@@ -0,0 +1,388 @@
+// lib/outgoingWebhooks.ts
+import crypto from "crypto";
+import { after } from "next/server";
+import { acquireLock } from "@/lib/lock";
+import { logger } from "@/lib/log";
+import { incrementCounter } from "@/lib/metrics";
+import { DEFAULT_PROFILE } from "@/lib/profiles";
+import { getKv, type KvStore } from "@/lib/store";
+import type { UploadState } from "@/lib/uploadLifecycle";
+import type { UploadRecord } from "@/lib/uploadStore";
+
+// Tells our own backend (the CRM) about upload lifecycle events, so it doesn't
+// have to poll Vimeo.
+//
+//   WEBHOOK_URLS          comma-separated receivers; unset turns webhooks off
+//   WEBHOOK_SECRET        HMAC key; nothing is sent without it
+//   WEBHOOK_EVENTS        comma-separated subset of WEBHOOK_EVENT_TYPES
+//                         (default all)
+//   WEBHOOK_TIMEOUT_MS    per delivery attempt (default 5000)
+//   WEBHOOK_MAX_ATTEMPTS  attempts before a delivery is given up (default 10)
+//
+// Each receiver gets a JSON POST with
+//   X-Webhook-Id         the event id, the same on every retry: dedupe on it
+//   X-Webhook-Event      e.g. "upload.confirmed"
+//   X-Webhook-Signature  sha256=<hex HMAC-SHA256 of the raw body>, the same
+//                        scheme our Vimeo webhook route checks (lib/vimeoWebhook.ts)
+//
+// Every delivery is queued in the store before its first attempt, which runs
+// after the response has gone out (next/server's after()), so a slow receiver
+// never holds up the request that caused the event. Anything but a 2xx is
+// retried with exponential backoff (1 minute, doubling, capped at 6h)
+// whenever cleanup runs, so a receiver that's down only delays events.
+// Delivery is at least once.
+
+const log = logger("webhooks");
+
+export const WEBHOOK_EVENT_TYPES = [
+  "upload.created",
+  "upload.confirmed",
+  "upload.deleted",
+  "upload.delete_failed",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+// Deliveries waiting for their next attempt, scored by when that is (ms)
+const QUEUE_KEY = "vimeo:webhooks:queue";
+
+// Delivered and given-up deliveries stay readable this long
+const DELIVERY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+
+const LOCK_NAME = "webhooks";
+
+function deliveryKey(id: string) {
+  return `vimeo:webhook:${id}`;
+}
+
+export type WebhookEvent = {
+  id: string;
+  type: WebhookEventType;
+  occurred_at: string;
+  data: {
+    video_id: string;
+    video_url: string;
+    profile: string;
+    state: UploadState;
+    created_at: string;
+    confirmed_at: string | null;
+    deleted_at: string | null;
+    [key: string]: unknown;
+  };
+};
+
+export type WebhookDelivery = {
+  id: string;
+  url: string;
+  event_id: string;
+  event: WebhookEventType;
+  /** The exact JSON sent, so every attempt is byte-for-byte the same. */
+  body: string;
+  created_at: string;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at?: string;
+  last_status?: number | null;
+  last_error?: string;
+  delivered_at?: string;
+  gave_up_at?: string;
+};
+
+export type WebhookConfig = {
+  urls: string[];
+  secret: string;
+  events: WebhookEventType[];
+  timeoutMs: number;
+  maxAttempts: number;
+};
+
+function list(value: string | undefined) {
+  return (value || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function envInt(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+export function loadWebhookConfig(
+  env: NodeJS.ProcessEnv = process.env
+): WebhookConfig {
+  const events = list(env.WEBHOOK_EVENTS).filter((e): e is WebhookEventType =>
+    (WEBHOOK_EVENT_TYPES as readonly string[]).includes(e)
+  );
+  return {
+    urls: list(env.WEBHOOK_URLS),
+    secret: env.WEBHOOK_SECRET || "",
+    events: events.length ? events : [...WEBHOOK_EVENT_TYPES],
+    timeoutMs: envInt(env.WEBHOOK_TIMEOUT_MS, 5000),
+    maxAttempts: envInt(env.WEBHOOK_MAX_ATTEMPTS, 10),
+  };
+}
+
+/** `sha256=<hex>` HMAC-SHA256 of the raw body. */
+export function signWebhookBody(body: string, secret: string) {
+  return `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+export function webhookBackoffSeconds(attempts: number) {
+  return Math.min(
+    RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1),
+    RETRY_MAX_SECONDS
+  );
+}
+
+function eventFor(
+  type: WebhookEventType,
+  rec: UploadRecord,
+  extra: Record<string, unknown>
+): WebhookEvent {
+  return {
+    id: `evt_${crypto.randomBytes(12).toString("hex")}`,
+    type,
+    occurred_at: new Date().toISOString(),
+    data: {
+      video_id: rec.video_id,
+      video_url: `https://vimeo.com/${rec.video_id}`,
+      profile: rec.profile ?? DEFAULT_PROFILE,
+      state: rec.state,
+      created_at: rec.created_at,
+      confirmed_at: rec.confirmed_at ?? null,
+      deleted_at: rec.deleted_at ?? null,
+      ...extra,
+    },
+  };
+}
+
+async function saveDelivery(delivery: WebhookDelivery, kv: KvStore) {
+  await kv.set(deliveryKey(delivery.id), delivery, {
+    ex: DELIVERY_TTL_SECONDS,
+  });
+  if (delivery.next_attempt_at) {
+    await kv.zadd(QUEUE_KEY, {
+      score: Date.parse(delivery.next_attempt_at),
+      member: delivery.id,
+    });
+  } else {
+    await kv.zrem(QUEUE_KEY, delivery.id);
+  }
+}
+
+/** One POST; the delivery comes back updated and saved. Never throws. */
+async function attempt(
+  delivery: WebhookDelivery,
+  config: WebhookConfig,
+  kv: KvStore
+) {
+  const at = new Date().toISOString();
+  const next: WebhookDelivery = {
+    ...delivery,
+    attempts: delivery.attempts + 1,
+    last_attempt_at: at,
+  };
+
+  let status: number | null = null;
+  let error: string | null = null;
+  try {
+    const resp = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "vimeo-upload-webhooks/1",
+        "X-Webhook-Id": delivery.event_id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Signature": signWebhookBody(delivery.body, config.secret),
+      },
+      body: delivery.body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(config.timeoutMs),
+    });
+    status = resp.status;
+    await resp.body?.cancel().catch(() => {});
+    if (!resp.ok) error = `status ${resp.status}`;
+  } catch (err: unknown) {
+    error = String((err as Error)?.message || err);
+  }
+  next.last_status = status;
+
+  let outcome: "delivered" | "failed" | "gave_up";
+  if (!error) {
+    outcome = "delivered";
+    next.delivered_at = at;
+    next.next_attempt_at = null;
+    delete next.last_error;
+  } else if (next.attempts >= config.maxAttempts) {
+    outcome = "gave_up";
+    next.gave_up_at = at;
+    next.next_attempt_at = null;
+    next.last_error = error.slice(0, 500);
+  } else {
+    outcome = "failed";
+    next.next_attempt_at = new Date(
+      Date.parse(at) + webhookBackoffSeconds(next.attempts) * 1000
+    ).toISOString();
+    next.last_error = error.slice(0, 500);
+  }
+
+  try {
+    await saveDelivery(next, kv);
+  } catch (err: unknown) {
+    log.warn("failed to save delivery", { delivery: next.id, error: err });
+  }
+  await incrementCounter("webhook_deliveries_total", {
+    event: delivery.event,
+    outcome,
+  });
+  if (outcome === "gave_up") {
+    log.error("gave up on delivery", {
+      delivery: next.id,
+      event: next.event,
+      url: next.url,
+      attempts: next.attempts,
+      error: next.last_error,
+    });
+  } else if (outcome === "failed") {
+    log.warn("delivery failed", {
+      delivery: next.id,
+      event: next.event,
+      attempts: next.attempts,
+      error: next.last_error,
+    });
+  }
+  return next;
+}
+
+// Outside a request (scripts, tests) after() throws; just don't wait there
+function inBackground(task: () => Promise<unknown>) {
+  try {
+    after(task);
+  } catch {
+    void task().catch((err: unknown) => {
+      log.warn("background delivery failed", { error: err });
+    });
+  }
+}
+
+/**
+ * Queues `type` about `rec` for every receiver and returns the queued
+ * deliveries. Unless `deliver` is false, each one is then tried once the
+ * response is done; failures wait for the next cleanup run. `extra` lands in
+ * the payload's `data`. Best-effort: a store or receiver problem is logged,
+ * never thrown, so it can't fail the action it reports.
+ */
+export async function emitWebhook(
+  type: WebhookEventType,
+  rec: UploadRecord,
+  extra: Record<string, unknown> = {},
+  opts: { deliver?: boolean; kv?: KvStore } = {}
+) {
+  const config = loadWebhookConfig();
+  if (!config.urls.length || !config.events.includes(type)) return [];
+  if (!config.secret) {
+    log.warn("WEBHOOK_URLS is set without WEBHOOK_SECRET; not sending", {
+      event: type,
+    });
+    return [];
+  }
+
+  const kv = opts.kv ?? getKv();
+  const deliver = opts.deliver !== false;
+  const event = eventFor(type, rec, extra);
+  const body = JSON.stringify(event);
+  const now = Date.now();
+
+  const deliveries: WebhookDelivery[] = [];
+  try {
+    for (const url of config.urls) {
+      const delivery: WebhookDelivery = {
+        id: crypto.randomBytes(12).toString("hex"),
+        url,
+        event_id: event.id,
+        event: type,
+        body,
+        created_at: new Date(now).toISOString(),
+        attempts: 0,
+        // while we try it in the background, keep the retry loop off it
+        next_attempt_at: new Date(
+          deliver ? now + RETRY_BASE_SECONDS * 1000 : now
+        ).toISOString(),
+      };
+      await saveDelivery(delivery, kv);
+      deliveries.push(delivery);
+    }
+  } catch (err: unknown) {
+    log.warn("failed to queue", { event: type, error: err });
+  }
+
+  if (deliver && deliveries.length) {
+    inBackground(() =>
+      Promise.all(deliveries.map((d) => attempt(d, config, kv)))
+    );
+  }
+  return deliveries;
+}
+
+export type WebhookRetryRun = {
+  attempted: number;
+  delivered: number;
+  failed: number;
+  gave_up: number;
+  /** True when another instance was already working through the queue. */
+  skipped: boolean;
+};
+
+/**
+ * Retries deliveries whose backoff has run out, oldest first, until `limit`
+ * or `budgetMs` runs out. The budget covers the attempts themselves: one is
+ * only started if WEBHOOK_TIMEOUT_MS still fits. One instance at a time.
+ */
+export async function deliverDueWebhooks(
+  opts: { limit?: number; budgetMs?: number } = {},
+  kv: KvStore = getKv()
+): Promise<WebhookRetryRun> {
+  const run: WebhookRetryRun = {
+    attempted: 0,
+    delivered: 0,
+    failed: 0,
+    gave_up: 0,
+    skipped: false,
+  };
+  const config = loadWebhookConfig();
+  if (!config.secret) return run;
+
+  const limit = opts.limit ?? 50;
+  const budgetMs = opts.budgetMs ?? 5000;
+  if (budgetMs < config.timeoutMs) return run;
+  const lock = await acquireLock(LOCK_NAME, budgetMs / 1000 + 5, kv);
+  if (!lock) return { ...run, skipped: true };
+
+  const startedAt = Date.now();
+  try {
+    const due = await kv.zrangeByScore(QUEUE_KEY, -Infinity, startedAt, {
+      count: limit,
+    });
+    for (const id of due) {
+      if (Date.now() - startedAt + config.timeoutMs > budgetMs) break;
+      const delivery = await kv.get<WebhookDelivery>(deliveryKey(id));
+      if (!delivery?.next_attempt_at) {
+        await kv.zrem(QUEUE_KEY, id);
+        continue;
+      }
+
+      const next = await attempt(delivery, config, kv);
+      run.attempted++;
+      if (next.delivered_at) run.delivered++;
+      else if (next.gave_up_at) run.gave_up++;
+      else run.failed++;
+    }
+  } finally {
+    await lock.release();
+  }
+  return run;
+}
@@ -0,0 +1,115 @@
+// lib/pendingToken.ts
+import crypto from "crypto";
+
+// pending_token = "v1.<payload>.<signature>", both base64url. The payload carries
+// the claims below; the signature is HMAC-SHA256 over "v1.<payload>".
+//
+// Tokens are verified before we touch the store, so a forged or replayed token
+// can never confirm (and thereby protect from cleanup) a video it wasn't minted for.
+
+const VERSION = "v1";
+
+// Same default lifetime as the pending record itself
+const DEFAULT_TTL_SECONDS = Number(process.env.UPLOAD_PENDING_TTL_SECONDS || 6 * 60 * 60);
+
+export type PendingTokenClaims = {
+  video_id: string;
+  origin: string | null; // page that created the upload, if it sent an Origin
+  exp: number; // unix seconds
+};
+
+export type PendingTokenCheck =
+  | { ok: true; claims: PendingTokenClaims; expired?: boolean }
+  | {
+      ok: false;
+      reason: "malformed" | "bad_signature" | "expired" | "video_id_mismatch" | "origin_mismatch";
+    };
+
+function secret() {
+  const s = process.env.PENDING_TOKEN_SECRET || "";
+  if (!s) throw new Error("Missing PENDING_TOKEN_SECRET");
+  return s;
+}
+
+function sign(data: string) {
+  return crypto.createHmac("sha256", secret()).update(data).digest("base64url");
+}
+
+export function mintPendingToken(args: {
+  video_id: string;
+  origin?: string | null;
+  ttlSeconds?: number;
+  now?: number;
+}) {
+  const now = args.now ?? Date.now();
+  const payload = {
+    v: args.video_id,
+    o: args.origin ?? null,
+    exp: Math.floor(now / 1000) + (args.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+    // keeps tokens unique even for the same video/origin/second
+    n: crypto.randomBytes(9).toString("base64url"),
+  };
+  const body = `${VERSION}.${Buffer.from(JSON.stringify(payload)).toString("base64url")}`;
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Checks signature and expiry, then any claims the caller wants to pin
+ * (video_id from the request body, Origin of the confirming page, null when
+ * it sent none).
+ * With `allowExpired` an expired token still passes, flagged `expired`, for
+ * callers that only accept it in special cases (a quarantined upload).
+ */
+export function verifyPendingToken(
+  token: string,
+  expect: {
+    video_id?: string;
+    origin?: string | null;
+    now?: number;
+    allowExpired?: boolean;
+  } = {}
+): PendingTokenCheck {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts[0] !== VERSION) return { ok: false, reason: "malformed" };
+
+  const body = `${parts[0]}.${parts[1]}`;
+  const given = Buffer.from(parts[2], "base64url");
+  const expected = Buffer.from(sign(body), "base64url");
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return { ok: false, reason: "bad_signature" };
+  }
+
+  let payload: { v?: unknown; o?: unknown; exp?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8"));
+  } catch {
+    return { ok: false, reason: "malformed" };
+  }
+  if (typeof payload?.v !== "string" || typeof payload?.exp !== "number") {
+    return { ok: false, reason: "malformed" };
+  }
+
+  const claims: PendingTokenClaims = {
+    video_id: payload.v,
+    origin: typeof payload.o === "string" ? payload.o : null,
+    exp: payload.exp,
+  };
+
+  const nowSec = Math.floor((expect.now ?? Date.now()) / 1000);
+  const expired = claims.exp <= nowSec;
+  if (expired && !expect.allowExpired) return { ok: false, reason: "expired" };
+
+  if (expect.video_id != null && expect.video_id !== claims.video_id) {
+    return { ok: false, reason: "video_id_mismatch" };
+  }
+
+  // Passing `origin` (even null) pins it: a token minted for a page must come
+  // back from that page, so a request without an Origin can't use it either.
+  // Only browsers are held to this; any other client can send whatever
+  // Origin it likes. Tokens minted without an Origin aren't pinned.
+  if (claims.origin && "origin" in expect && expect.origin !== claims.origin) {
+    return { ok: false, reason: "origin_mismatch" };
+  }
+
+  return expired ? { ok: true, claims, expired } : { ok: true, claims };
+}
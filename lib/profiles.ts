@@ -0,0 +1,260 @@
+// lib/profiles.ts
+import crypto from "crypto";
+import {
+  parseOriginPattern,
+  originMatches,
+  type OriginPattern,
+} from "@/lib/cors";
+import type { ValidationIssue } from "@/lib/uploadPolicy";
+import { getVimeoClient, VimeoClient } from "@/lib/vimeo";
+
+// Upload profiles: one server, several forms, each with its own Vimeo account.
+//
+//   UPLOAD_PROFILES  JSON object keyed by profile name, e.g.
+//     {
+//       "careers": {
+//         "vimeo_token": "$VIMEO_TOKEN_CAREERS",
+//         "folder_id": "123456",
+//         "quarantine_folder_id": "654321",
+//         "privacy": "unlisted",
+//         "allowed_origins": ["https://careers.example.com"],
+//         "max_bytes": 1073741824,
+//         "cleanup_ttl_minutes": 120,
+//         "api_key": "$CAREERS_API_KEY"
+//       }
+//     }
+//
+// "$NAME" values are read from that env var so secrets stay out of the JSON.
+// Fields left out fall back to the "default" profile, which is built from
+// VIMEO_TOKEN / VIMEO_FOLDER_ID / VIMEO_QUARANTINE_FOLDER_ID /
+// VIMEO_DEFAULT_PRIVACY and the global upload
+// policy (and can itself be overridden by a "default" entry).
+//
+// Callers pick a profile with an `X-Api-Key` header or a `profile` body field.
+// A profile with an api_key can only be selected with that key.
+
+export const DEFAULT_PROFILE = "default";
+
+export type UploadProfile = {
+  name: string;
+  vimeo_token: string;
+  folder_id: string;
+  /** Where cleanup parks expired uploads before deleting them; "" deletes straight away. */
+  quarantine_folder_id: string;
+  privacy: string;
+  /** Narrows CORS_ALLOWED_ORIGINS for this profile; null = global policy only. */
+  allowed_origins: string[] | null;
+  /** Overrides UPLOAD_MAX_BYTES; null = global policy. */
+  max_bytes: number | null;
+  /** How old an unconfirmed upload must be before cleanup deletes it; null = cron's `minutes`. */
+  cleanup_ttl_minutes: number | null;
+  api_key: string | null;
+};
+
+export type ProfileSelection =
+  | { ok: true; profile: UploadProfile }
+  | { ok: false; status: 401 | 403; error: string }
+  | { ok: false; status: 422; errors: ValidationIssue[] };
+
+function secret(value: unknown, env: NodeJS.ProcessEnv) {
+  if (typeof value !== "string" || !value) return "";
+  return value.startsWith("$") ? env[value.slice(1)] || "" : value;
+}
+
+function positiveNumber(value: unknown) {
+  const n = Number(value);
+  return value != null && Number.isFinite(n) && n > 0 ? Math.floor(n) : null;
+}
+
+function defaultProfile(env: NodeJS.ProcessEnv): UploadProfile {
+  return {
+    name: DEFAULT_PROFILE,
+    vimeo_token: env.VIMEO_TOKEN || "",
+    folder_id: env.VIMEO_FOLDER_ID || "",
+    quarantine_folder_id: env.VIMEO_QUARANTINE_FOLDER_ID || "",
+    privacy: env.VIMEO_DEFAULT_PRIVACY || "unlisted",
+    allowed_origins: null,
+    max_bytes: null,
+    cleanup_ttl_minutes: null,
+    api_key: null,
+  };
+}
+
+export function loadProfiles(env: NodeJS.ProcessEnv = process.env) {
+  const base = defaultProfile(env);
+  const profiles = new Map<string, UploadProfile>([[DEFAULT_PROFILE, base]]);
+
+  const raw = env.UPLOAD_PROFILES;
+  if (!raw?.trim()) return profiles;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err: unknown) {
+    throw new Error(`Invalid UPLOAD_PROFILES: ${(err as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(
+      "Invalid UPLOAD_PROFILES: expected an object keyed by profile name"
+    );
+  }
+
+  for (const [name, value] of Object.entries(
+    parsed as Record<string, unknown>
+  )) {
+    if (!value || typeof value !== "object") {
+      throw new Error(`Invalid UPLOAD_PROFILES.${name}: expected an object`);
+    }
+    const p = value as Record<string, unknown>;
+    const origins = Array.isArray(p.allowed_origins)
+      ? p.allowed_origins.filter(
+          (o): o is string => typeof o === "string" && !!o.trim()
+        )
+      : null;
+
+    profiles.set(name, {
+      name,
+      vimeo_token: secret(p.vimeo_token, env) || base.vimeo_token,
+      folder_id: p.folder_id != null ? String(p.folder_id) : base.folder_id,
+      quarantine_folder_id:
+        p.quarantine_folder_id != null
+          ? String(p.quarantine_folder_id)
+          : base.quarantine_folder_id,
+      privacy:
+        typeof p.privacy === "string" && p.privacy ? p.privacy : base.privacy,
+      allowed_origins: origins,
+      max_bytes: positiveNumber(p.max_bytes),
+      cleanup_ttl_minutes: positiveNumber(p.cleanup_ttl_minutes),
+      api_key: secret(p.api_key, env) || null,
+    });
+  }
+
+  return profiles;
+}
+
+export function getProfile(name: string | null | undefined) {
+  return loadProfiles().get(name || DEFAULT_PROFILE) ?? null;
+}
+
+function sameSecret(a: string, b: string) {
+  const ha = crypto.createHash("sha256").update(a).digest();
+  const hb = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(ha, hb);
+}
+
+/** Picks the profile for a create-upload call from `X-Api-Key` and/or body `profile`. */
+export function selectProfile(
+  req: Request,
+  requested: unknown
+): ProfileSelection {
+  if (requested != null && typeof requested !== "string") {
+    return {
+      ok: false,
+      status: 422,
+      errors: [
+        {
+          field: "profile",
+          code: "invalid_profile",
+          message: "The upload profile is invalid.",
+        },
+      ],
+    };
+  }
+
+  const profiles = loadProfiles();
+  const apiKey = req.headers.get("x-api-key")?.trim() || "";
+
+  if (apiKey) {
+    const byKey = Array.from(profiles.values()).find(
+      (p) => p.api_key && sameSecret(p.api_key, apiKey)
+    );
+    if (!byKey) return { ok: false, status: 401, error: "invalid_api_key" };
+    if (requested && requested !== byKey.name) {
+      return {
+        ok: false,
+        status: 403,
+        error: "profile_not_allowed_for_api_key",
+      };
+    }
+    return { ok: true, profile: byKey };
+  }
+
+  const profile = profiles.get(requested || DEFAULT_PROFILE);
+  if (!profile) {
+    return {
+      ok: false,
+      status: 422,
+      errors: [
+        {
+          field: "profile",
+          code: "unknown_profile",
+          message: "The upload profile doesn't exist.",
+        },
+      ],
+    };
+  }
+  if (profile.api_key) {
+    return { ok: false, status: 401, error: "api_key_required" };
+  }
+  return { ok: true, profile };
+}
+
+function patternsFor(origins: string[]) {
+  return origins.map(parseOriginPattern).filter((p): p is OriginPattern => !!p);
+}
+
+/** Whether `origin` may use this profile (no Origin header, e.g. server-to-server, always may). */
+export function profileAllowsOrigin(
+  profile: UploadProfile,
+  origin: string | null
+) {
+  if (!origin || !profile.allowed_origins) return true;
+  return originMatches(origin, patternsFor(profile.allowed_origins));
+}
+
+/** Every profile's allowed_origins, so browser routes answer CORS for all forms. */
+export function profileOriginPatterns(): OriginPattern[] {
+  let profiles: Map<string, UploadProfile>;
+  try {
+    profiles = loadProfiles();
+  } catch {
+    return []; // a bad UPLOAD_PROFILES surfaces in create-upload, not in CORS
+  }
+  return Array.from(profiles.values()).flatMap((p) =>
+    p.allowed_origins ? patternsFor(p.allowed_origins) : []
+  );
+}
+
+const clients = new Map<string, VimeoClient>();
+
+/**
+ * Vimeo client holding this profile's credentials. Profiles that share the
+ * global token and privacy use the shared client, so setVimeoClient() still
+ * swaps it in tests.
+ */
+export function vimeoForProfile(profile: UploadProfile) {
+  const base = defaultProfile(process.env);
+  if (
+    profile.vimeo_token === base.vimeo_token &&
+    profile.privacy === base.privacy
+  ) {
+    return getVimeoClient();
+  }
+
+  const cacheKey = `${profile.name}\0${profile.vimeo_token}\0${profile.privacy}`;
+  let client = clients.get(cacheKey);
+  if (!client) {
+    client = VimeoClient.fromEnv({
+      token: profile.vimeo_token,
+      defaultPrivacy: profile.privacy,
+    });
+    clients.set(cacheKey, client);
+  }
+  return client;
+}
+
+/** Client for an existing record's profile; null if that profile no longer exists. */
+export function vimeoForRecord(rec: { profile?: string }) {
+  const profile = getProfile(rec.profile);
+  return profile ? vimeoForProfile(profile) : null;
+}
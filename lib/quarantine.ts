@@ -0,0 +1,113 @@
+// lib/quarantine.ts
+import {
+  getProfile,
+  vimeoForProfile,
+  type UploadProfile,
+} from "@/lib/profiles";
+import type { UploadState } from "@/lib/uploadLifecycle";
+import {
+  markQuarantined,
+  restoreUpload,
+  type UploadRecord,
+} from "@/lib/uploadStore";
+
+// Quarantine-before-delete. When a profile has a quarantine_folder_id (see
+// lib/profiles.ts), cleanup doesn't delete an expired upload straight away:
+// it moves the video into that Vimeo folder and marks the record
+// `quarantined`. Only once it has sat there for the grace period does cleanup
+// delete it for good. Until then an admin can restore it, and a late form
+// submission (confirm-upload) restores it on its own.
+//
+//   CLEANUP_QUARANTINE_GRACE_MINUTES  how long a quarantined upload is kept
+//                                     (default 4320, 3 days; max 30 days, the
+//                                     record's retention)
+//   QUARANTINE_RESTORE_HOLD_MINUTES   after a restore, how long cleanup leaves
+//                                     the upload alone (default 1440)
+
+const MAX_GRACE_MINUTES = 30 * 24 * 60;
+
+function envMinutes(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return process.env[name] != null && Number.isFinite(n) && n > 0
+    ? n
+    : fallback;
+}
+
+export function quarantineGraceMinutes() {
+  return Math.min(
+    envMinutes("CLEANUP_QUARANTINE_GRACE_MINUTES", 3 * 24 * 60),
+    MAX_GRACE_MINUTES
+  );
+}
+
+/** When cleanup may delete a quarantined upload for good. */
+export function quarantineEndsAt(rec: UploadRecord) {
+  const since = Date.parse(rec.quarantined_at || rec.updated_at);
+  return new Date(since + quarantineGraceMinutes() * 60 * 1000).toISOString();
+}
+
+/**
+ * Moves the video into the profile's quarantine folder, then marks the record.
+ * False (record untouched) when Vimeo refused the move; Vimeo errors
+ * (timeouts, rate limits) are thrown.
+ */
+export async function quarantineUpload(
+  rec: UploadRecord,
+  profile: UploadProfile,
+  at = new Date().toISOString()
+) {
+  const folder_id = profile.quarantine_folder_id;
+  const moved = await vimeoForProfile(profile).addToFolder({
+    folderId: folder_id,
+    videoId: rec.video_id,
+  });
+  if (!moved) return false;
+
+  await markQuarantined(rec.pending_token, { at, folder_id });
+  return true;
+}
+
+export type RestoreResult =
+  | { ok: true; record: UploadRecord; folder_id: string | null }
+  | { ok: false; reason: "not_quarantined"; state: UploadState }
+  | { ok: false; reason: "unknown_profile" | "not_found" }
+  | { ok: false; reason: "vimeo_failed" };
+
+/**
+ * Takes an upload out of quarantine: back into the profile's folder on Vimeo
+ * (or out of the quarantine folder, for profiles without one) and back to its
+ * earlier state in the store, held from cleanup for
+ * QUARANTINE_RESTORE_HOLD_MINUTES. Vimeo errors are thrown.
+ */
+export async function restoreFromQuarantine(
+  rec: UploadRecord,
+  opts: { note?: string } = {}
+): Promise<RestoreResult> {
+  if (rec.state !== "quarantined") {
+    return { ok: false, reason: "not_quarantined", state: rec.state };
+  }
+  const profile = getProfile(rec.profile);
+  if (!profile) return { ok: false, reason: "unknown_profile" };
+
+  const vimeo = vimeoForProfile(profile);
+  const folder_id = profile.folder_id || null;
+  const moved = folder_id
+    ? await vimeo.addToFolder({ folderId: folder_id, videoId: rec.video_id })
+    : await vimeo.removeFromFolder({
+        folderId: rec.quarantine_folder_id || profile.quarantine_folder_id,
+        videoId: rec.video_id,
+      });
+  if (!moved) return { ok: false, reason: "vimeo_failed" };
+
+  const at = new Date().toISOString();
+  const holdMinutes = envMinutes("QUARANTINE_RESTORE_HOLD_MINUTES", 24 * 60);
+  const record = await restoreUpload(rec.pending_token, {
+    at,
+    hold_until: new Date(
+      Date.parse(at) + holdMinutes * 60 * 1000
+    ).toISOString(),
+    note: opts.note,
+  });
+  if (!record) return { ok: false, reason: "not_found" };
+  return { ok: true, record, folder_id };
+}
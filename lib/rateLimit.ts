@@ -0,0 +1,148 @@
+// lib/rateLimit.ts
+import crypto from "crypto";
+import { getKv, type KvStore } from "@/lib/store";
+import { countPendingForClient } from "@/lib/uploadStore";
+
+// Abuse protection for create-upload: every call reserves Vimeo quota.
+//
+//   CREATE_UPLOAD_RATE_LIMIT              requests per window per client (default 10, 0 = off)
+//   CREATE_UPLOAD_RATE_WINDOW_SECONDS     sliding window length (default 60)
+//   CREATE_UPLOAD_MAX_PENDING_PER_CLIENT  unconfirmed uploads per client (default 5, 0 = off)
+//
+// And for the status poll, which can cost a Vimeo call each time:
+//
+//   STATUS_RATE_LIMIT                     polls per window per client (default 60, 0 = off)
+//   STATUS_RATE_WINDOW_SECONDS            sliding window length (default 60)
+//
+// A "client" is the caller's IP, hashed so raw IPs never land in the store. Origin
+// isn't part of it: any script can send whatever Origin it likes, and each one
+// would get its own quota.
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retry_after_seconds: number;
+};
+
+// Nothing tells us when a pending upload will settle; suggest checking back after a cron tick
+const PENDING_RETRY_AFTER_SECONDS = 5 * 60;
+
+function envInt(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+export function createUploadLimits() {
+  return {
+    limit: envInt("CREATE_UPLOAD_RATE_LIMIT", 10),
+    windowSeconds: envInt("CREATE_UPLOAD_RATE_WINDOW_SECONDS", 60) || 60,
+    maxPending: envInt("CREATE_UPLOAD_MAX_PENDING_PER_CLIENT", 5),
+  };
+}
+
+export function clientIp(req: { headers: Pick<Headers, "get"> }) {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return req.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+export function clientKeyFor(req: Request) {
+  return crypto
+    .createHash("sha256")
+    .update(clientIp(req))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Sliding-window log: one zset member per hit, scored by time. Hits older than the
+ * window are trimmed, and a hit over the limit is not recorded (so a client that
+ * backs off recovers on schedule).
+ */
+export async function hitSlidingWindow(
+  key: string,
+  opts: { limit: number; windowSeconds: number; now?: number },
+  kv: KvStore = getKv()
+): Promise<RateLimitResult> {
+  const now = opts.now ?? Date.now();
+  const windowMs = opts.windowSeconds * 1000;
+
+  await kv.zremRangeByScore(key, -Infinity, now - windowMs);
+  const count = await kv.zcard(key);
+
+  if (count >= opts.limit) {
+    // oldest hit decides when a slot frees up; members are "<ms>:<nonce>"
+    const [oldest] = await kv.zrangeByScore(key, -Infinity, Infinity, { count: 1 });
+    const oldestMs = Number(String(oldest ?? "").split(":")[0]) || now;
+    return {
+      allowed: false,
+      limit: opts.limit,
+      remaining: 0,
+      retry_after_seconds: Math.max(1, Math.ceil((oldestMs + windowMs - now) / 1000)),
+    };
+  }
+
+  const member = `${now}:${crypto.randomBytes(4).toString("hex")}`;
+  await kv.zadd(key, { score: now, member });
+  await kv.expire(key, opts.windowSeconds);
+
+  return {
+    allowed: true,
+    limit: opts.limit,
+    remaining: opts.limit - count - 1,
+    retry_after_seconds: 0,
+  };
+}
+
+/**
+ * Both create-upload checks. Returns null when the request may proceed,
+ * otherwise the reason and how long the client should wait.
+ */
+export async function checkCreateUploadLimits(client_key: string) {
+  const limits = createUploadLimits();
+
+  if (limits.limit > 0) {
+    const hit = await hitSlidingWindow(`vimeo:ratelimit:create:${client_key}`, {
+      limit: limits.limit,
+      windowSeconds: limits.windowSeconds,
+    });
+    if (!hit.allowed) {
+      return {
+        error: "rate_limited" as const,
+        limit: hit.limit,
+        retry_after_seconds: hit.retry_after_seconds,
+      };
+    }
+  }
+
+  if (limits.maxPending > 0) {
+    const pending = await countPendingForClient(client_key);
+    if (pending >= limits.maxPending) {
+      return {
+        error: "too_many_pending_uploads" as const,
+        limit: limits.maxPending,
+        retry_after_seconds: PENDING_RETRY_AFTER_SECONDS,
+      };
+    }
+  }
+
+  return null;
+}
+
+/** The status poll's limit; null when the request may proceed. */
+export async function checkStatusPollLimit(client_key: string) {
+  const limit = envInt("STATUS_RATE_LIMIT", 60);
+  if (limit <= 0) return null;
+
+  const hit = await hitSlidingWindow(`vimeo:ratelimit:status:${client_key}`, {
+    limit,
+    windowSeconds: envInt("STATUS_RATE_WINDOW_SECONDS", 60) || 60,
+  });
+  if (hit.allowed) return null;
+  return {
+    error: "rate_limited" as const,
+    limit: hit.limit,
+    retry_after_seconds: hit.retry_after_seconds,
+  };
+}
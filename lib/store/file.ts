@@ -0,0 +1,115 @@
+// lib/store/file.ts
+import { promises as fs } from "fs";
+import path from "path";
+import { emptyMemoryData, MemoryKvStore, type MemoryData } from "./memory";
+import type { KvStore, SetOptions, ZRangeOptions } from "./types";
+
+/**
+ * JSON-file backed store for local development. Every operation re-reads the
+ * file so separate processes (dev server, scripts) see each other's writes.
+ * Writes go to a temp file first and are renamed into place. Operations are
+ * only serialized within one process: two processes writing at the same time
+ * can lose one another's updates, so use Redis for anything concurrent.
+ */
+export class FileKvStore implements KvStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  private async load(): Promise<MemoryData> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(raw) as MemoryData;
+      return parsed?.entries ? parsed : emptyMemoryData();
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return emptyMemoryData();
+      }
+      throw err;
+    }
+  }
+
+  private async save(data: MemoryData) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+    await fs.rename(tmp, this.filePath);
+  }
+
+  // Serialize operations within this process so read-modify-write cycles don't interleave.
+  private run<T>(write: boolean, op: (mem: MemoryKvStore) => Promise<T>) {
+    const next = this.queue.then(async () => {
+      const mem = new MemoryKvStore(await this.load());
+      const result = await op(mem);
+      if (write) await this.save(mem.data);
+      return result;
+    });
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  get<T>(key: string) {
+    return this.run(false, (m) => m.get<T>(key));
+  }
+
+  set(key: string, value: unknown, opts?: SetOptions) {
+    return this.run(true, (m) => m.set(key, value, opts));
+  }
+
+  del(...keys: string[]) {
+    return this.run(true, (m) => m.del(...keys));
+  }
+
+  expire(key: string, seconds: number) {
+    return this.run(true, (m) => m.expire(key, seconds));
+  }
+
+  zadd(key: string, entry: { score: number; member: string }) {
+    return this.run(true, (m) => m.zadd(key, entry));
+  }
+
+  zrangeByScore(
+    key: string,
+    min: number,
+    max: number,
+    opts?: ZRangeOptions
+  ) {
+    return this.run(false, (m) => m.zrangeByScore(key, min, max, opts));
+  }
+
+  zrem(key: string, ...members: string[]) {
+    return this.run(true, (m) => m.zrem(key, ...members));
+  }
+
+  zremRangeByScore(key: string, min: number, max: number) {
+    return this.run(true, (m) => m.zremRangeByScore(key, min, max));
+  }
+
+  zcard(key: string) {
+    return this.run(false, (m) => m.zcard(key));
+  }
+
+  lpush(key: string, ...values: unknown[]) {
+    return this.run(true, (m) => m.lpush(key, ...values));
+  }
+
+  lrange<T>(key: string, start: number, stop: number) {
+    return this.run(false, (m) => m.lrange<T>(key, start, stop));
+  }
+
+  ltrim(key: string, start: number, stop: number) {
+    return this.run(true, (m) => m.ltrim(key, start, stop));
+  }
+
+  llen(key: string) {
+    return this.run(false, (m) => m.llen(key));
+  }
+
+  hincrby(key: string, increments: Record<string, number>) {
+    return this.run(true, (m) => m.hincrby(key, increments));
+  }
+
+  hgetall(key: string) {
+    return this.run(false, (m) => m.hgetall(key));
+  }
+}
@@ -0,0 +1,61 @@
+// lib/store/index.ts
+import path from "path";
+import { FileKvStore } from "./file";
+import { MemoryKvStore } from "./memory";
+import { RedisKvStore } from "./redis";
+import type { KvStore } from "./types";
+
+export type { KvStore } from "./types";
+
+export type StoreBackend = "redis" | "memory" | "file";
+
+/**
+ * UPLOAD_STORE picks the backend: "redis" (Upstash), "memory" or "file".
+ * When unset we use Redis if Upstash credentials are present, memory otherwise,
+ * so local runs and tests work without a live Redis. In production that
+ * fallback throws instead: a memory store there is per instance, and every
+ * record in it is silently lost (set UPLOAD_STORE=memory to really want it).
+ */
+export function configuredBackend(): StoreBackend {
+  const explicit = (process.env.UPLOAD_STORE || "").trim().toLowerCase();
+  if (explicit === "redis" || explicit === "memory" || explicit === "file") {
+    return explicit;
+  }
+  if (explicit) throw new Error(`Unknown UPLOAD_STORE "${explicit}"`);
+
+  const hasUpstash =
+    !!process.env.UPSTASH_REDIS_REST_URL || !!process.env.KV_REST_API_URL;
+  if (hasUpstash) return "redis";
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(
+      "No upload store configured: set the Upstash env vars or UPLOAD_STORE"
+    );
+  }
+  return "memory";
+}
+
+export function createKvStore(backend: StoreBackend = configuredBackend()): KvStore {
+  switch (backend) {
+    case "redis":
+      return RedisKvStore.fromEnv();
+    case "file":
+      return new FileKvStore(
+        path.resolve(process.env.UPLOAD_STORE_FILE || ".data/upload-store.json")
+      );
+    case "memory":
+      return new MemoryKvStore();
+  }
+}
+
+// Kept on globalThis so the memory backend survives Next.js dev module reloads.
+const globalForKv = globalThis as unknown as { __uploadKv?: KvStore };
+
+export function getKv(): KvStore {
+  if (!globalForKv.__uploadKv) globalForKv.__uploadKv = createKvStore();
+  return globalForKv.__uploadKv;
+}
+
+/** Swap the shared store (tests, scripts). Pass null to rebuild from env on next use. */
+export function setKv(kv: KvStore | null) {
+  globalForKv.__uploadKv = kv ?? undefined;
+}
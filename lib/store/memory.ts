@@ -0,0 +1,203 @@
+// lib/store/memory.ts
+import type { KvStore, SetOptions, ZRangeOptions } from "./types";
+
+type Entry =
+  | { kind: "value"; value: unknown; expires_at: number | null }
+  | { kind: "zset"; members: Record<string, number>; expires_at: number | null }
+  | { kind: "list"; items: unknown[]; expires_at: number | null }
+  | { kind: "hash"; fields: Record<string, number>; expires_at: number | null };
+
+/** Plain JSON-serializable state, so the file backend can persist it as-is. */
+export type MemoryData = { entries: Record<string, Entry> };
+
+export function emptyMemoryData(): MemoryData {
+  return { entries: {} };
+}
+
+/**
+ * In-process Redis stand-in. Values are JSON round-tripped on the way in and
+ * out so callers see the same copy semantics they get from Upstash.
+ */
+export class MemoryKvStore implements KvStore {
+  constructor(
+    readonly data: MemoryData = emptyMemoryData(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  private entry(key: string) {
+    const e = this.data.entries[key];
+    if (!e) return null;
+    if (e.expires_at != null && e.expires_at <= this.now()) {
+      delete this.data.entries[key];
+      return null;
+    }
+    return e;
+  }
+
+  private zset(key: string, create: boolean) {
+    const e = this.entry(key);
+    if (e) {
+      if (e.kind !== "zset") throw new Error(`WRONGTYPE ${key} is not a zset`);
+      return e.members;
+    }
+    if (!create) return null;
+    const members: Record<string, number> = {};
+    this.data.entries[key] = { kind: "zset", members, expires_at: null };
+    return members;
+  }
+
+  private list(key: string, create: boolean) {
+    const e = this.entry(key);
+    if (e) {
+      if (e.kind !== "list") throw new Error(`WRONGTYPE ${key} is not a list`);
+      return e.items;
+    }
+    if (!create) return null;
+    const items: unknown[] = [];
+    this.data.entries[key] = { kind: "list", items, expires_at: null };
+    return items;
+  }
+
+  private hash(key: string, create: boolean) {
+    const e = this.entry(key);
+    if (e) {
+      if (e.kind !== "hash") throw new Error(`WRONGTYPE ${key} is not a hash`);
+      return e.fields;
+    }
+    if (!create) return null;
+    const fields: Record<string, number> = {};
+    this.data.entries[key] = { kind: "hash", fields, expires_at: null };
+    return fields;
+  }
+
+  async get<T>(key: string) {
+    const e = this.entry(key);
+    if (!e) return null;
+    if (e.kind !== "value") throw new Error(`WRONGTYPE ${key} is not a value`);
+    return clone(e.value) as T;
+  }
+
+  async set(key: string, value: unknown, opts?: SetOptions) {
+    if (opts?.nx && this.entry(key)) return false;
+    let expires_at: number | null = null;
+    if (opts?.ex) expires_at = this.now() + opts.ex * 1000;
+    else if (opts?.keepTtl) expires_at = this.entry(key)?.expires_at ?? null;
+    this.data.entries[key] = { kind: "value", value: clone(value), expires_at };
+    return true;
+  }
+
+  async del(...keys: string[]) {
+    let n = 0;
+    for (const key of keys) {
+      if (this.entry(key)) {
+        delete this.data.entries[key];
+        n++;
+      }
+    }
+    return n;
+  }
+
+  async expire(key: string, seconds: number) {
+    const e = this.entry(key);
+    if (!e) return false;
+    e.expires_at = this.now() + seconds * 1000;
+    return true;
+  }
+
+  async zadd(key: string, entry: { score: number; member: string }) {
+    this.zset(key, true)![entry.member] = entry.score;
+  }
+
+  async zrangeByScore(
+    key: string,
+    min: number,
+    max: number,
+    opts?: ZRangeOptions
+  ) {
+    const members = this.zset(key, false);
+    if (!members) return [];
+    const sorted = Object.entries(members)
+      .filter(([, score]) => score >= min && score <= max)
+      .sort(([am, as], [bm, bs]) => as - bs || (am < bm ? -1 : am > bm ? 1 : 0))
+      .map(([member]) => member);
+    if (opts?.rev) sorted.reverse();
+    const offset = opts?.offset ?? 0;
+    return opts?.count != null
+      ? sorted.slice(offset, offset + opts.count)
+      : sorted.slice(offset);
+  }
+
+  async zrem(key: string, ...members: string[]) {
+    const set = this.zset(key, false);
+    if (!set) return 0;
+    let n = 0;
+    for (const m of members) {
+      if (m in set) {
+        delete set[m];
+        n++;
+      }
+    }
+    if (!Object.keys(set).length) delete this.data.entries[key];
+    return n;
+  }
+
+  async zremRangeByScore(key: string, min: number, max: number) {
+    const set = this.zset(key, false);
+    if (!set) return 0;
+    const doomed = Object.keys(set).filter((m) => set[m] >= min && set[m] <= max);
+    return await this.zrem(key, ...doomed);
+  }
+
+  async zcard(key: string) {
+    const set = this.zset(key, false);
+    return set ? Object.keys(set).length : 0;
+  }
+
+  async lpush(key: string, ...values: unknown[]) {
+    const items = this.list(key, true)!;
+    for (const v of values) items.unshift(clone(v));
+    return items.length;
+  }
+
+  async lrange<T>(key: string, start: number, stop: number) {
+    const items = this.list(key, false);
+    if (!items) return [];
+    const [from, to] = listBounds(items.length, start, stop);
+    return items.slice(from, to).map((v) => clone(v) as T);
+  }
+
+  async ltrim(key: string, start: number, stop: number) {
+    const items = this.list(key, false);
+    if (!items) return;
+    const [from, to] = listBounds(items.length, start, stop);
+    const kept = items.slice(from, to);
+    if (!kept.length) delete this.data.entries[key];
+    else items.splice(0, items.length, ...kept);
+  }
+
+  async llen(key: string) {
+    return this.list(key, false)?.length ?? 0;
+  }
+
+  async hincrby(key: string, increments: Record<string, number>) {
+    const fields = this.hash(key, true)!;
+    for (const [field, by] of Object.entries(increments)) {
+      fields[field] = (fields[field] ?? 0) + by;
+    }
+  }
+
+  async hgetall(key: string) {
+    return { ...(this.hash(key, false) ?? {}) };
+  }
+}
+
+// Redis list indexes: inclusive stop, negatives from the end. Returns slice() bounds.
+function listBounds(length: number, start: number, stop: number) {
+  const from = Math.max(0, start < 0 ? length + start : start);
+  const to = Math.min(length, (stop < 0 ? length + stop : stop) + 1);
+  return [from, Math.max(from, to)] as const;
+}
+
+function clone(value: unknown) {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
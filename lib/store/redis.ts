@@ -0,0 +1,115 @@
+// lib/store/redis.ts
+import { Redis } from "@upstash/redis";
+import type { KvStore, SetOptions, ZRangeOptions } from "./types";
+
+export class RedisKvStore implements KvStore {
+  constructor(private readonly redis: Redis) {}
+
+  static fromEnv() {
+    return new RedisKvStore(Redis.fromEnv());
+  }
+
+  async get<T>(key: string) {
+    return await this.redis.get<T>(key);
+  }
+
+  async set(key: string, value: unknown, opts?: SetOptions) {
+    if (opts?.nx) {
+      const res = opts.ex
+        ? await this.redis.set(key, value, { ex: opts.ex, nx: true })
+        : await this.redis.set(key, value, { nx: true });
+      return res !== null;
+    }
+    if (opts?.ex) await this.redis.set(key, value, { ex: opts.ex });
+    else if (opts?.keepTtl) await this.redis.set(key, value, { keepTtl: true });
+    else await this.redis.set(key, value);
+    return true;
+  }
+
+  async del(...keys: string[]) {
+    if (!keys.length) return 0;
+    return await this.redis.del(...keys);
+  }
+
+  async expire(key: string, seconds: number) {
+    return (await this.redis.expire(key, seconds)) === 1;
+  }
+
+  async zadd(key: string, entry: { score: number; member: string }) {
+    await this.redis.zadd(key, entry);
+  }
+
+  async zrangeByScore(
+    key: string,
+    min: number,
+    max: number,
+    opts?: ZRangeOptions
+  ) {
+    // ZRANGE ... BYSCORE REV takes the bounds high-to-low
+    const rev = !!opts?.rev;
+    const start = scoreBound(rev ? max : min);
+    const stop = scoreBound(rev ? min : max);
+    const raw =
+      opts?.count != null
+        ? await this.redis.zrange<unknown[]>(key, start, stop, {
+            byScore: true,
+            rev,
+            offset: opts.offset ?? 0,
+            count: opts.count,
+          })
+        : await this.redis.zrange<unknown[]>(key, start, stop, { byScore: true, rev });
+    return raw.map((m) => String(m));
+  }
+
+  async zrem(key: string, ...members: string[]) {
+    if (!members.length) return 0;
+    return await this.redis.zrem(key, ...members);
+  }
+
+  async zremRangeByScore(key: string, min: number, max: number) {
+    return await this.redis.zremrangebyscore(key, scoreBound(min), scoreBound(max));
+  }
+
+  async zcard(key: string) {
+    return await this.redis.zcard(key);
+  }
+
+  async lpush(key: string, ...values: unknown[]) {
+    if (!values.length) return await this.redis.llen(key);
+    return await this.redis.lpush(key, ...values);
+  }
+
+  async lrange<T>(key: string, start: number, stop: number) {
+    return await this.redis.lrange<T>(key, start, stop);
+  }
+
+  async ltrim(key: string, start: number, stop: number) {
+    await this.redis.ltrim(key, start, stop);
+  }
+
+  async llen(key: string) {
+    return await this.redis.llen(key);
+  }
+
+  async hincrby(key: string, increments: Record<string, number>) {
+    const fields = Object.entries(increments);
+    if (!fields.length) return;
+    const pipe = this.redis.pipeline();
+    for (const [field, by] of fields) pipe.hincrby(key, field, by);
+    await pipe.exec();
+  }
+
+  async hgetall(key: string) {
+    const raw = (await this.redis.hgetall<Record<string, unknown>>(key)) ?? {};
+    return Object.fromEntries(
+      Object.entries(raw).map(([field, value]) => [field, Number(value)])
+    );
+  }
+}
+
+// Infinity doesn't survive JSON encoding; Redis spells it "-inf"/"+inf".
+function scoreBound(n: number) {
+  if (n === -Infinity) return "-inf" as const;
+  if (n === Infinity) return "+inf" as const;
+  return n;
+}
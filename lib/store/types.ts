@@ -0,0 +1,46 @@
+// lib/store/types.ts
+
+export type SetOptions = { ex?: number; keepTtl?: boolean; nx?: boolean };
+
+export type ZRangeOptions = { offset?: number; count?: number; rev?: boolean };
+
+/**
+ * The small slice of Redis that the upload pipeline relies on.
+ * Every backend (Upstash, in-memory, JSON file) implements exactly this,
+ * so the logic in lib/uploadStore.ts is written once.
+ */
+export interface KvStore {
+  get<T>(key: string): Promise<T | null>;
+  /**
+   * `ex` sets a TTL in seconds; `keepTtl` keeps the key's current expiry;
+   * `nx` only writes if the key doesn't exist. False when `nx` skipped the write.
+   */
+  set(key: string, value: unknown, opts?: SetOptions): Promise<boolean>;
+  del(...keys: string[]): Promise<number>;
+  /** Sets a TTL (seconds) on an existing key; false if the key doesn't exist. */
+  expire(key: string, seconds: number): Promise<boolean>;
+
+  zadd(key: string, entry: { score: number; member: string }): Promise<void>;
+  /** Members with min <= score <= max, lowest score first (highest with `rev`). */
+  zrangeByScore(
+    key: string,
+    min: number,
+    max: number,
+    opts?: ZRangeOptions
+  ): Promise<string[]>;
+  zrem(key: string, ...members: string[]): Promise<number>;
+  zremRangeByScore(key: string, min: number, max: number): Promise<number>;
+  zcard(key: string): Promise<number>;
+
+  /** Prepends values (the last one ends up first); returns the new length. */
+  lpush(key: string, ...values: unknown[]): Promise<number>;
+  /** Items start..stop, inclusive; negative indexes count from the end. */
+  lrange<T>(key: string, start: number, stop: number): Promise<T[]>;
+  /** Keeps only items start..stop, same indexing as lrange. */
+  ltrim(key: string, start: number, stop: number): Promise<void>;
+  llen(key: string): Promise<number>;
+
+  /** HINCRBY for each field, in one round trip where the backend allows. */
+  hincrby(key: string, increments: Record<string, number>): Promise<void>;
+  hgetall(key: string): Promise<Record<string, number>>;
+}
@@ -0,0 +1,217 @@
+// lib/submission.ts
+import type { ValidationIssue } from "@/lib/uploadPolicy";
+import type { VimeoClient } from "@/lib/vimeo";
+
+// The form submission that owns an upload, sent along with confirm-upload and
+// kept on the confirmed record (searchable by email or form_id, see
+// listUploads in lib/uploadStore.ts).
+//
+//   CONFIRM_SUBMISSION_TO_VIMEO  comma-separated: "description" appends a
+//                                summary to the video's description, "tags"
+//                                adds a form:<form_id> tag (default neither).
+//                                The email never goes into tags.
+
+export type SubmissionValue = string | number | boolean | null;
+
+export type UploadSubmission = {
+  name?: string;
+  /** Lower-cased, so lookups don't depend on how it was typed. */
+  email?: string;
+  form_id?: string;
+  fields?: Record<string, SubmissionValue>;
+};
+
+const MAX_NAME = 200;
+const MAX_EMAIL = 254;
+const MAX_FIELDS = 50;
+const MAX_FIELD_KEY = 64;
+const MAX_FIELD_VALUE = 2000;
+const MAX_DESCRIPTION = 5000;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const FORM_ID = /^[A-Za-z0-9_.:-]{1,128}$/;
+
+// Drops control/format characters except newlines and tabs
+function clean(raw: string, max: number) {
+  return Array.from(
+    raw.replace(/\r\n?/g, "\n").replace(/[^\P{Cc}\n\t]|\p{Cf}/gu, "")
+  )
+    .slice(0, max)
+    .join("")
+    .trim();
+}
+
+function issue(field: string, code: string, message: string): ValidationIssue {
+  return { field: field ? `submission.${field}` : "submission", code, message };
+}
+
+/**
+ * Validates confirm-upload's `submission` object. Unknown keys are rejected
+ * rather than dropped, like video metadata (lib/uploadMetadata.ts).
+ */
+export function resolveSubmission(
+  input: unknown
+):
+  | { ok: true; value: UploadSubmission }
+  | { ok: false; errors: ValidationIssue[] } {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return {
+      ok: false,
+      errors: [issue("", "invalid_submission", "The submission is invalid.")],
+    };
+  }
+  const s = input as Record<string, unknown>;
+  const errors: ValidationIssue[] = [];
+  const out: UploadSubmission = {};
+
+  for (const key of Object.keys(s)) {
+    if (!["name", "email", "form_id", "fields"].includes(key)) {
+      errors.push(
+        issue(key, "unknown_field", `Unknown submission field "${key}".`)
+      );
+    }
+  }
+
+  if (s.name != null && s.name !== "") {
+    if (typeof s.name !== "string") {
+      errors.push(issue("name", "invalid_name", "The name is invalid."));
+    } else {
+      const name = clean(s.name, MAX_NAME).replace(/\s+/g, " ");
+      if (name) out.name = name;
+    }
+  }
+
+  if (s.email != null && s.email !== "") {
+    const email =
+      typeof s.email === "string" ? s.email.trim().toLowerCase() : "";
+    if (email.length > MAX_EMAIL || !EMAIL.test(email)) {
+      errors.push(
+        issue("email", "invalid_email", "The email address is invalid.")
+      );
+    } else {
+      out.email = email;
+    }
+  }
+
+  if (s.form_id != null && s.form_id !== "") {
+    const form_id = typeof s.form_id === "string" ? s.form_id.trim() : "";
+    if (!FORM_ID.test(form_id)) {
+      errors.push(
+        issue("form_id", "invalid_form_id", "The form ID is invalid.")
+      );
+    } else {
+      out.form_id = form_id;
+    }
+  }
+
+  if (s.fields != null) {
+    const f = s.fields as Record<string, unknown>;
+    if (typeof f !== "object" || Array.isArray(f)) {
+      errors.push(
+        issue("fields", "invalid_fields", "Custom fields are invalid.")
+      );
+    } else if (Object.keys(f).length > MAX_FIELDS) {
+      errors.push(
+        issue(
+          "fields",
+          "too_many_fields",
+          `At most ${MAX_FIELDS} custom fields are allowed.`
+        )
+      );
+    } else {
+      const fields: Record<string, SubmissionValue> = {};
+      for (const [rawKey, value] of Object.entries(f)) {
+        const key = clean(rawKey, MAX_FIELD_KEY + 1);
+        if (!key || key.length > MAX_FIELD_KEY) {
+          errors.push(
+            issue(
+              "fields",
+              "invalid_field_name",
+              "A custom field name is invalid."
+            )
+          );
+        } else if (typeof value === "string") {
+          fields[key] = clean(value, MAX_FIELD_VALUE);
+        } else if (
+          value === null ||
+          typeof value === "boolean" ||
+          (typeof value === "number" && Number.isFinite(value))
+        ) {
+          fields[key] = value;
+        } else {
+          errors.push(
+            issue(
+              `fields.${key}`,
+              "invalid_field_value",
+              `Custom field "${key}" must be text, a number or true/false.`
+            )
+          );
+        }
+      }
+      if (Object.keys(fields).length) out.fields = fields;
+    }
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: out };
+}
+
+export function submissionSyncTargets(env: NodeJS.ProcessEnv = process.env) {
+  const targets = (env.CONFIRM_SUBMISSION_TO_VIMEO || "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase());
+  return {
+    description: targets.includes("description"),
+    tags: targets.includes("tags"),
+  };
+}
+
+/** The block appended to the video description. */
+export function submissionSummary(sub: UploadSubmission) {
+  const lines = ["Submission"];
+  if (sub.name) lines.push(`Name: ${sub.name}`);
+  if (sub.email) lines.push(`Email: ${sub.email}`);
+  if (sub.form_id) lines.push(`Form: ${sub.form_id}`);
+  for (const [key, value] of Object.entries(sub.fields ?? {})) {
+    lines.push(`${key}: ${value ?? ""}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Writes the submission to Vimeo as CONFIRM_SUBMISSION_TO_VIMEO asks. Null
+ * when it asks for nothing; otherwise per target true, false (Vimeo refused)
+ * or null (nothing to write). Appending is skipped when the summary is already
+ * there, so a retried confirm doesn't repeat it. Vimeo errors are thrown.
+ */
+export async function syncSubmissionToVimeo(
+  vimeo: VimeoClient,
+  video_id: string,
+  sub: UploadSubmission,
+  targets = submissionSyncTargets()
+) {
+  if (!targets.description && !targets.tags) return null;
+
+  let description_ok: boolean | null = null;
+  if (targets.description) {
+    const summary = submissionSummary(sub);
+    const current = await vimeo.getDescription(video_id);
+    if (current == null) {
+      description_ok = false;
+    } else if (current.includes(summary)) {
+      description_ok = true;
+    } else {
+      const next = current ? `${current}\n\n${summary}` : summary;
+      description_ok = await vimeo.setDescription(
+        video_id,
+        Array.from(next).slice(0, MAX_DESCRIPTION).join("")
+      );
+    }
+  }
+
+  let tags_ok: boolean | null = null;
+  if (targets.tags && sub.form_id) {
+    tags_ok = await vimeo.addTag(video_id, `form:${sub.form_id}`);
+  }
+
+  return { description_ok, tags_ok };
+}
@@ -0,0 +1,366 @@
+// lib/testing/fakeVimeoServer.ts
+import http from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * A tiny stand-in for api.vimeo.com, good enough to drive create-upload,
+ * confirm-upload and cleanup end to end without network access.
+ *
+ *   const fake = await startFakeVimeoServer();
+ *   process.env.VIMEO_API_BASE_URL = fake.url;
+ *   ...
+ *   await fake.close();
+ *
+ * Implements POST /me/videos (tus, post and pull approaches; pulls "finish" at once), PUT/DELETE /me/folders/:id/videos/:id,
+ * GET/PATCH/DELETE /videos/:id, PUT /videos/:id/tags(/:tag),
+ * PUT /videos/:id/privacy/domains/:domain, GET /me, GET /oauth/verify and
+ * GET /me/folders/:id, plus HEAD/PATCH on the returned tus
+ * upload_link so uploads can actually be "sent". Videos belong to the token that
+ * created them; other tokens get 403, like another Vimeo account would.
+ */
+
+export type FakeVideo = {
+  id: string;
+  name: string;
+  description: string;
+  privacy: Record<string, unknown>;
+  content_rating: string[];
+  tags: string[];
+  embed_domains: string[];
+  size: number;
+  received: number;
+  folder_id: string | null;
+  created_at: string;
+  /** Bearer token that created the video. */
+  owner: string;
+  /** Override to simulate Vimeo; null derives it from the bytes received. */
+  transcode_status: "in_progress" | "complete" | "error" | null;
+};
+
+export type FakeVimeoOptions = {
+  /** Bearer token(s) the server accepts. Any non-empty token when unset. */
+  token?: string | string[];
+  /** Folder ids that exist. Any folder id is accepted when unset. */
+  folders?: string[];
+  /** Scopes GET /oauth/verify reports; defaults to a full upload token's. */
+  scopes?: string[];
+  port?: number;
+};
+
+export type FakeVimeoServer = {
+  url: string;
+  videos: Map<string, FakeVideo>;
+  /** Every request seen, in order, as "METHOD /path". */
+  requests: string[];
+  /** Force the next request matching method+path prefix to return this status. */
+  failNext(
+    method: string,
+    pathPrefix: string,
+    status: number,
+    body?: string,
+    headers?: Record<string, string>
+  ): void;
+  close(): Promise<void>;
+};
+
+type Failure = {
+  method: string;
+  pathPrefix: string;
+  status: number;
+  body: string;
+  headers: Record<string, string>;
+};
+
+function readBody(req: http.IncomingMessage) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/vnd.vimeo.*+json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: http.ServerResponse, status: number, error: string) {
+  sendJson(res, status, { error });
+}
+
+export async function startFakeVimeoServer(
+  opts: FakeVimeoOptions = {}
+): Promise<FakeVimeoServer> {
+  const videos = new Map<string, FakeVideo>();
+  const requests: string[] = [];
+  const failures: Failure[] = [];
+  let nextId = 100000;
+  let baseUrl = "";
+
+  const server = http.createServer(async (req, res) => {
+    const method = req.method || "GET";
+    const path = new URL(req.url || "/", "http://fake").pathname;
+    requests.push(`${method} ${path}`);
+
+    const fi = failures.findIndex(
+      (f) => f.method === method && path.startsWith(f.pathPrefix)
+    );
+    if (fi >= 0) {
+      const [f] = failures.splice(fi, 1);
+      res.writeHead(f.status, f.headers);
+      res.end(f.body);
+      return;
+    }
+
+    try {
+      // tus upload endpoints are authorized by the link itself, like Vimeo's
+      const tus = path.match(/^\/tus\/([^/]+)$/);
+      if (tus) {
+        const video = videos.get(tus[1]);
+        if (!video) return sendError(res, 404, "upload not found");
+
+        if (method === "HEAD") {
+          res.writeHead(200, {
+            "Tus-Resumable": "1.0.0",
+            "Upload-Offset": String(video.received),
+            "Upload-Length": String(video.size),
+          });
+          return res.end();
+        }
+
+        if (method === "PATCH") {
+          const offset = Number(req.headers["upload-offset"]);
+          if (offset !== video.received) {
+            return sendError(res, 409, "offset mismatch");
+          }
+          const chunk = await readBody(req);
+          if (video.received + chunk.length > video.size) {
+            return sendError(res, 413, "upload exceeds declared size");
+          }
+          video.received += chunk.length;
+          res.writeHead(204, {
+            "Tus-Resumable": "1.0.0",
+            "Upload-Offset": String(video.received),
+          });
+          return res.end();
+        }
+
+        return sendError(res, 405, "method not allowed");
+      }
+
+      const auth = String(req.headers.authorization || "");
+      const bearer = auth.replace(/^Bearer\s+/i, "").trim();
+      const accepted = opts.token == null ? null : [opts.token].flat();
+      if (!bearer || (accepted && !accepted.includes(bearer))) {
+        return sendError(res, 401, "unauthorized");
+      }
+      const owned = (id: string) => {
+        const video = videos.get(decodeURIComponent(id));
+        if (!video) return { status: 404 as const, video: null };
+        if (video.owner !== bearer) return { status: 403 as const, video: null };
+        return { status: 200 as const, video };
+      };
+
+      if (method === "GET" && path === "/me") {
+        return sendJson(res, 200, { uri: "/users/1", name: "Fake Vimeo User" });
+      }
+
+      if (method === "GET" && path === "/oauth/verify") {
+        const scopes = opts.scopes ?? ["public", "private", "upload", "delete", "edit"];
+        return sendJson(res, 200, {
+          scope: scopes.join(" "),
+          user: { uri: "/users/1", name: "Fake Vimeo User" },
+        });
+      }
+
+      const folderGet = path.match(/^\/me\/folders\/([^/]+)$/);
+      if (method === "GET" && folderGet) {
+        const folderId = decodeURIComponent(folderGet[1]);
+        if (opts.folders && !opts.folders.includes(folderId)) {
+          return sendError(res, 404, "folder not found");
+        }
+        return sendJson(res, 200, { uri: `/users/1/projects/${folderId}` });
+      }
+
+      if (method === "POST" && path === "/me/videos") {
+        const body = JSON.parse((await readBody(req)).toString() || "{}");
+        const approach = body?.upload?.approach;
+        const link = String(body?.upload?.link || "");
+        let size = Number(body?.upload?.size);
+        if (approach === "pull") {
+          if (!/^https?:\/\//.test(link)) {
+            return sendError(res, 400, "invalid upload link");
+          }
+          // pretend the download already happened
+          if (!(size > 0)) size = 1;
+        } else if ((approach !== "tus" && approach !== "post") || !(size > 0)) {
+          return sendError(res, 400, "invalid upload parameters");
+        }
+
+        const id = String(nextId++);
+        const video: FakeVideo = {
+          id,
+          name: String(body?.name || "Untitled"),
+          description: String(body?.description || ""),
+          privacy: body?.privacy || {},
+          content_rating: Array.isArray(body?.content_rating)
+            ? body.content_rating
+            : [],
+          tags: [],
+          embed_domains: [],
+          size,
+          received: approach === "pull" ? size : 0,
+          folder_id: null,
+          created_at: new Date().toISOString(),
+          owner: bearer,
+          transcode_status: null,
+        };
+        videos.set(id, video);
+
+        return sendJson(res, 200, {
+          uri: `/videos/${id}`,
+          link: `https://vimeo.com/${id}`,
+          name: video.name,
+          privacy: video.privacy,
+          upload:
+            approach === "tus"
+              ? { approach, size, upload_link: `${baseUrl}/tus/${id}` }
+              : approach === "post"
+                ? {
+                    approach,
+                    size,
+                    upload_link: `${baseUrl}/post/${id}`,
+                    form: `<form method="POST" action="${baseUrl}/post/${id}" enctype="multipart/form-data"><input type="file" name="file_data"><input type="submit"></form>`,
+                  }
+                : { approach, link, size },
+        });
+      }
+
+      const folderPut = path.match(/^\/me\/folders\/([^/]+)\/videos\/([^/]+)$/);
+      if (method === "PUT" && folderPut) {
+        const [, folderId, videoId] = folderPut;
+        if (opts.folders && !opts.folders.includes(folderId)) {
+          return sendError(res, 404, "folder not found");
+        }
+        const { status, video } = owned(videoId);
+        if (!video) return sendError(res, status, "video not found");
+        video.folder_id = folderId;
+        res.writeHead(204);
+        return res.end();
+      }
+      if (method === "DELETE" && folderPut) {
+        const [, folderId, videoId] = folderPut;
+        const { status, video } = owned(videoId);
+        if (!video || video.folder_id !== folderId) {
+          return sendError(res, video ? 404 : status, "video not in folder");
+        }
+        video.folder_id = null;
+        res.writeHead(204);
+        return res.end();
+      }
+
+      const tagsPut = path.match(/^\/videos\/([^/]+)\/tags$/);
+      if (method === "PUT" && tagsPut) {
+        const { status, video } = owned(tagsPut[1]);
+        if (!video) return sendError(res, status, "video not found");
+        const body = JSON.parse((await readBody(req)).toString() || "[]");
+        video.tags = (Array.isArray(body) ? body : []).map((t) =>
+          String(t?.name ?? t)
+        );
+        return sendJson(res, 200, video.tags.map((name) => ({ name })));
+      }
+
+      const tagPut = path.match(/^\/videos\/([^/]+)\/tags\/([^/]+)$/);
+      if (method === "PUT" && tagPut) {
+        const { status, video } = owned(tagPut[1]);
+        if (!video) return sendError(res, status, "video not found");
+        const tag = decodeURIComponent(tagPut[2]);
+        if (!video.tags.includes(tag)) video.tags.push(tag);
+        res.writeHead(204);
+        return res.end();
+      }
+
+      const domainPut = path.match(
+        /^\/videos\/([^/]+)\/privacy\/domains\/([^/]+)$/
+      );
+      if (method === "PUT" && domainPut) {
+        const { status, video } = owned(domainPut[1]);
+        if (!video) return sendError(res, status, "video not found");
+        const domain = decodeURIComponent(domainPut[2]);
+        if (!video.embed_domains.includes(domain)) video.embed_domains.push(domain);
+        res.writeHead(204);
+        return res.end();
+      }
+
+      const videoPath = path.match(/^\/videos\/([^/]+)$/);
+      if (method === "GET" && videoPath) {
+        const { status, video } = owned(videoPath[1]);
+        if (!video) return sendError(res, status, "video not found");
+        const uploaded = video.received >= video.size;
+        const transcode =
+          video.transcode_status ?? (uploaded ? "complete" : "in_progress");
+        return sendJson(res, 200, {
+          uri: `/videos/${video.id}`,
+          status:
+            transcode === "complete"
+              ? "available"
+              : transcode === "error"
+                ? "transcode_starved"
+                : "transcoding",
+          upload: { status: uploaded ? "complete" : "in_progress" },
+          transcode: { status: transcode },
+          name: video.name,
+          description: video.description || null,
+        });
+      }
+
+      if (method === "PATCH" && videoPath) {
+        const { status, video } = owned(videoPath[1]);
+        if (!video) return sendError(res, status, "video not found");
+        const body = JSON.parse((await readBody(req)).toString() || "{}");
+        if (typeof body?.name === "string") video.name = body.name;
+        if (typeof body?.description === "string") {
+          video.description = body.description;
+        }
+        return sendJson(res, 200, {
+          uri: `/videos/${video.id}`,
+          name: video.name,
+          description: video.description || null,
+        });
+      }
+
+      if (method === "DELETE" && videoPath) {
+        const { status, video } = owned(videoPath[1]);
+        if (!video) return sendError(res, status, "video not found");
+        videos.delete(video.id);
+        res.writeHead(204);
+        return res.end();
+      }
+
+      return sendError(res, 404, `no fake route for ${method} ${path}`);
+    } catch (err) {
+      return sendError(res, 500, String((err as Error)?.message || err));
+    }
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(opts.port ?? 0, "127.0.0.1", resolve)
+  );
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    url: baseUrl,
+    videos,
+    requests,
+    failNext(method, pathPrefix, status, body = "", headers = {}) {
+      failures.push({ method, pathPrefix, status, body, headers });
+    },
+    close() {
+      return new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve()))
+      );
+    },
+  };
+}
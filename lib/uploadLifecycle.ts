@@ -0,0 +1,129 @@
+// lib/uploadLifecycle.ts
+
+/**
+ * Lifecycle of one upload, from create-upload to confirmation or cleanup:
+ *
+ *   created → uploading → uploaded → transcoding → available → confirmed
+ *
+ * Any live state can also end in `failed` or `deleted`. Steps may be skipped
+ * (we don't always see every event, e.g. a browser that uploads straight to
+ * Vimeo never passes through `uploading`), but a record never moves backwards.
+ *
+ * The one exception is `quarantined`: cleanup parks an expired upload there
+ * (see lib/quarantine.ts) instead of deleting it, and a restore sends it back
+ * to the state it came from. Only a restore (applyRestore) leaves quarantine
+ * for a live state; Vimeo's view (status polls, webhooks) can only move a
+ * quarantined record to `failed` or `deleted`.
+ */
+export type UploadState =
+  | "created"
+  | "uploading"
+  | "uploaded"
+  | "transcoding"
+  | "available"
+  | "confirmed"
+  | "quarantined"
+  | "failed"
+  | "deleted";
+
+export type UploadTransition = {
+  from: UploadState | null;
+  to: UploadState;
+  at: string;
+  note?: string;
+};
+
+const ALLOWED: Record<UploadState, readonly UploadState[]> = {
+  created: ["uploading", "uploaded", "transcoding", "available", "confirmed", "quarantined", "failed", "deleted"],
+  uploading: ["uploaded", "transcoding", "available", "confirmed", "quarantined", "failed", "deleted"],
+  uploaded: ["transcoding", "available", "confirmed", "quarantined", "failed", "deleted"],
+  transcoding: ["available", "confirmed", "quarantined", "failed", "deleted"],
+  available: ["confirmed", "quarantined", "failed", "deleted"],
+  // a confirmed video can still fail transcoding later, or be removed by hand
+  confirmed: ["failed", "deleted"],
+  // restores go through applyRestore
+  quarantined: ["failed", "deleted"],
+  failed: ["deleted"],
+  deleted: [],
+};
+
+// Where a restore may send a quarantined record: back where it was, or
+// straight to confirmed
+const RESTORE_TARGETS: readonly UploadState[] = [
+  "created",
+  "uploading",
+  "uploaded",
+  "transcoding",
+  "available",
+  "confirmed",
+];
+
+export const UPLOAD_STATES = Object.keys(ALLOWED) as UploadState[];
+
+export function isUploadState(value: unknown): value is UploadState {
+  return typeof value === "string" && value in ALLOWED;
+}
+
+export class IllegalTransitionError extends Error {
+  constructor(
+    readonly from: UploadState,
+    readonly to: UploadState
+  ) {
+    super(`Illegal upload transition ${from} → ${to}`);
+    this.name = "IllegalTransitionError";
+  }
+}
+
+export function canTransition(from: UploadState, to: UploadState) {
+  return ALLOWED[from].includes(to);
+}
+
+type Transitionable = {
+  state: UploadState;
+  updated_at: string;
+  transitions: UploadTransition[];
+};
+
+function moved<T extends Transitionable>(rec: T, to: UploadState, at: string, note?: string): T {
+  const transition: UploadTransition = { from: rec.state, to, at };
+  if (note) transition.note = note;
+
+  return {
+    ...rec,
+    state: to,
+    updated_at: at,
+    transitions: [...rec.transitions, transition],
+  };
+}
+
+/**
+ * Returns a copy of `rec` moved to `to`, with the transition appended.
+ * Throws IllegalTransitionError if the move isn't allowed.
+ */
+export function applyTransition<T extends Transitionable>(
+  rec: T,
+  to: UploadState,
+  at: string,
+  note?: string
+): T {
+  if (!canTransition(rec.state, to)) {
+    throw new IllegalTransitionError(rec.state, to);
+  }
+  return moved(rec, to, at, note);
+}
+
+/**
+ * Like applyTransition, for taking a quarantined record back to a live state
+ * (or confirmed). Throws IllegalTransitionError for anything else.
+ */
+export function applyRestore<T extends Transitionable>(
+  rec: T,
+  to: UploadState,
+  at: string,
+  note?: string
+): T {
+  if (rec.state !== "quarantined" || !RESTORE_TARGETS.includes(to)) {
+    throw new IllegalTransitionError(rec.state, to);
+  }
+  return moved(rec, to, at, note);
+}
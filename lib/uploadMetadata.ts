@@ -0,0 +1,304 @@
+// lib/uploadMetadata.ts
+import { logger } from "@/lib/log";
+import { sanitizeVideoName, type ValidationIssue } from "@/lib/uploadPolicy";
+
+// Optional per-request video metadata for create-upload, plus server-side
+// templates so each form can carry its own defaults.
+//
+//   VIMEO_METADATA_TEMPLATES     JSON: { "<template>": { description, tags, privacy, ... } }
+//   VIMEO_ALLOWED_PRIVACY_VIEWS  privacy.view values clients may ask for
+//                                (default "unlisted,disable,nobody" — never "anybody")
+//   VIMEO_ALLOWED_PRIVACY_EMBEDS privacy.embed values clients may ask for
+//                                (default "public,private,whitelist")
+//
+// Templates are trusted server config and skip the client allowlists.
+
+const log = logger("metadata");
+
+export type VimeoVideoMetadata = {
+  description?: string;
+  tags?: string[];
+  privacy?: { view?: string; embed?: string; download?: boolean };
+  embed_domains?: string[];
+  content_rating?: string[];
+};
+
+const MAX_DESCRIPTION = 5000;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_EMBED_DOMAINS = 20;
+
+const CONTENT_RATINGS = [
+  "safe",
+  "unrated",
+  "violence",
+  "drugs",
+  "language",
+  "nudity",
+  "advertisement",
+];
+
+function list(value: string | undefined, fallback: string) {
+  return (value?.trim() ? value : fallback)
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export function allowedPrivacy(env: NodeJS.ProcessEnv = process.env) {
+  return {
+    views: list(env.VIMEO_ALLOWED_PRIVACY_VIEWS, "unlisted,disable,nobody"),
+    embeds: list(env.VIMEO_ALLOWED_PRIVACY_EMBEDS, "public,private,whitelist"),
+  };
+}
+
+export function loadMetadataTemplates(
+  raw: string | undefined = process.env.VIMEO_METADATA_TEMPLATES
+): Record<string, VimeoVideoMetadata> {
+  if (!raw?.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    log.warn("VIMEO_METADATA_TEMPLATES is not valid JSON; ignoring");
+    return {};
+  }
+}
+
+// Keeps newlines/tabs (descriptions are multi-line) but drops other control chars
+function sanitizeDescription(raw: string) {
+  return Array.from(
+    raw.replace(/\r\n?/g, "\n").replace(/[^\P{Cc}\n\t]|\p{Cf}/gu, "")
+  )
+    .slice(0, MAX_DESCRIPTION)
+    .join("")
+    .trim();
+}
+
+const HOSTNAME =
+  /^(?=.{1,253}$)(\*\.)?([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+function issue(field: string, code: string, message: string): ValidationIssue {
+  return { field: field ? `metadata.${field}` : "metadata", code, message };
+}
+
+/**
+ * Validates the client's `metadata` object and merges it over the named template.
+ * Client privacy is checked against the allowlists; anything unknown is rejected
+ * rather than silently dropped so the widget learns about typos.
+ */
+export function resolveUploadMetadata(
+  input: unknown,
+  opts: {
+    templates?: Record<string, VimeoVideoMetadata>;
+    allowed?: { views: string[]; embeds: string[] };
+  } = {}
+):
+  | { ok: true; value: VimeoVideoMetadata }
+  | { ok: false; errors: ValidationIssue[] } {
+  const templates = opts.templates ?? loadMetadataTemplates();
+  const allowed = opts.allowed ?? allowedPrivacy();
+  const errors: ValidationIssue[] = [];
+
+  if (input == null) input = {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return {
+      ok: false,
+      errors: [issue("", "invalid_metadata", "Video details are invalid.")],
+    };
+  }
+  const m = input as Record<string, unknown>;
+
+  const known = [
+    "template",
+    "description",
+    "tags",
+    "privacy",
+    "embed_domains",
+    "content_rating",
+  ];
+  for (const key of Object.keys(m)) {
+    if (!known.includes(key)) {
+      errors.push(
+        issue(key, "unknown_field", `Unknown video detail "${key}".`)
+      );
+    }
+  }
+
+  let base: VimeoVideoMetadata = {};
+  if (m.template != null) {
+    const name = String(m.template);
+    if (!Object.prototype.hasOwnProperty.call(templates, name)) {
+      errors.push(
+        issue("template", "unknown_template", "Unknown form template.")
+      );
+    } else {
+      base = templates[name];
+    }
+  }
+
+  const out: VimeoVideoMetadata = {
+    ...base,
+    privacy: base.privacy ? { ...base.privacy } : undefined,
+  };
+
+  if (m.description != null) {
+    if (typeof m.description !== "string") {
+      errors.push(
+        issue(
+          "description",
+          "invalid_description",
+          "The description is invalid."
+        )
+      );
+    } else {
+      out.description = sanitizeDescription(m.description);
+    }
+  }
+
+  if (m.tags != null) {
+    if (!Array.isArray(m.tags) || m.tags.some((t) => typeof t !== "string")) {
+      errors.push(
+        issue("tags", "invalid_tags", "Tags must be a list of words.")
+      );
+    } else {
+      const tags = (m.tags as string[])
+        .map((t) => sanitizeVideoName(t, MAX_TAG_LENGTH))
+        .filter(Boolean);
+      const merged = Array.from(new Set([...(base.tags ?? []), ...tags]));
+      if (merged.length > MAX_TAGS) {
+        errors.push(
+          issue(
+            "tags",
+            "too_many_tags",
+            `At most ${MAX_TAGS} tags are allowed.`
+          )
+        );
+      } else {
+        out.tags = merged;
+      }
+    }
+  }
+
+  if (m.privacy != null) {
+    const p = m.privacy as Record<string, unknown>;
+    if (typeof p !== "object" || Array.isArray(p)) {
+      errors.push(
+        issue("privacy", "invalid_privacy", "Privacy settings are invalid.")
+      );
+    } else {
+      const privacy = { ...(out.privacy ?? {}) };
+      if (p.view != null) {
+        if (typeof p.view !== "string" || !allowed.views.includes(p.view)) {
+          errors.push(
+            issue(
+              "privacy.view",
+              "privacy_not_allowed",
+              "That visibility setting isn't allowed."
+            )
+          );
+        } else {
+          privacy.view = p.view;
+        }
+      }
+      if (p.embed != null) {
+        if (typeof p.embed !== "string" || !allowed.embeds.includes(p.embed)) {
+          errors.push(
+            issue(
+              "privacy.embed",
+              "privacy_not_allowed",
+              "That embed setting isn't allowed."
+            )
+          );
+        } else {
+          privacy.embed = p.embed;
+        }
+      }
+      if (p.download != null) {
+        if (typeof p.download !== "boolean") {
+          errors.push(
+            issue(
+              "privacy.download",
+              "invalid_privacy",
+              "Download must be true or false."
+            )
+          );
+        } else {
+          privacy.download = p.download;
+        }
+      }
+      out.privacy = privacy;
+    }
+  }
+
+  if (m.embed_domains != null) {
+    const domains = Array.isArray(m.embed_domains)
+      ? m.embed_domains.map((d) => String(d).trim().toLowerCase())
+      : null;
+    if (!domains || domains.some((d) => !HOSTNAME.test(d))) {
+      errors.push(
+        issue(
+          "embed_domains",
+          "invalid_domain",
+          "Embed domains must be plain host names."
+        )
+      );
+    } else if (domains.length > MAX_EMBED_DOMAINS) {
+      errors.push(
+        issue(
+          "embed_domains",
+          "too_many_domains",
+          `At most ${MAX_EMBED_DOMAINS} embed domains are allowed.`
+        )
+      );
+    } else {
+      out.embed_domains = Array.from(new Set(domains));
+    }
+  }
+
+  if (m.content_rating != null) {
+    const ratings = Array.isArray(m.content_rating)
+      ? m.content_rating.map(String)
+      : null;
+    if (!ratings || ratings.some((r) => !CONTENT_RATINGS.includes(r))) {
+      errors.push(
+        issue(
+          "content_rating",
+          "invalid_content_rating",
+          `Content rating must be any of: ${CONTENT_RATINGS.join(", ")}.`
+        )
+      );
+    } else {
+      out.content_rating = Array.from(new Set(ratings));
+    }
+  }
+
+  // A domain whitelist only means something with whitelist embedding
+  if (out.embed_domains?.length) {
+    if (out.privacy?.embed && out.privacy.embed !== "whitelist") {
+      errors.push(
+        issue(
+          "embed_domains",
+          "embed_mismatch",
+          "Embed domains require the whitelist embed setting."
+        )
+      );
+    } else if (
+      allowed.embeds.includes("whitelist") ||
+      base.embed_domains?.length
+    ) {
+      out.privacy = { ...(out.privacy ?? {}), embed: "whitelist" };
+    } else {
+      errors.push(
+        issue(
+          "embed_domains",
+          "privacy_not_allowed",
+          "Embed domain restrictions aren't allowed."
+        )
+      );
+    }
+  }
+
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, value: out };
+}
@@ -0,0 +1,233 @@
+// lib/uploadPolicy.ts
+
+// What create-upload accepts before it reserves anything on Vimeo.
+//
+//   UPLOAD_MAX_BYTES            largest declared size (default 5 GiB)
+//   UPLOAD_ALLOWED_EXTENSIONS   comma-separated, no dots (default common video types)
+//   UPLOAD_ALLOWED_MIME_TYPES   comma-separated, "video/*" style wildcards allowed
+//   UPLOAD_NAME_MAX_LENGTH      video title cap in characters (default 128)
+//
+// Failures come back as a list of { field, code, message } so the upload widget
+// can show `message` to the user as-is.
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024 * 1024;
+const DEFAULT_EXTENSIONS = "mp4,mov,m4v,webm,mkv,avi,wmv,mpg,mpeg,3gp";
+const DEFAULT_MIME_TYPES = "video/*";
+const DEFAULT_NAME_MAX_LENGTH = 128;
+const FALLBACK_NAME = "User submission";
+
+export type ValidationIssue = {
+  field: string; // "size", "filename", "metadata.tags", ...
+  code: string;
+  message: string;
+};
+
+export type UploadPolicy = {
+  maxBytes: number;
+  extensions: string[];
+  mimeTypes: string[];
+  nameMaxLength: number;
+};
+
+/**
+ * How the bytes reach Vimeo: Vimeo's own tus / post / pull approaches, or
+ * "chunked" through our server (app/api/vimeo/chunked) for clients without a
+ * tus library.
+ */
+export type UploadApproach = "tus" | "post" | "pull" | "chunked";
+
+export const UPLOAD_APPROACHES: readonly UploadApproach[] = ["tus", "post", "pull", "chunked"];
+
+export type ValidatedUpload = {
+  approach: UploadApproach;
+  /** Only ever null for pull, where Vimeo finds out the size itself. */
+  size: number | null;
+  name: string;
+  /** pull: where Vimeo downloads the file from. */
+  link: string | null;
+  /** post: where Vimeo sends the browser after the form upload. */
+  redirect_url: string | null;
+  filename: string | null;
+  mime_type: string | null;
+};
+
+function list(value: string | undefined, fallback: string) {
+  return (value?.trim() ? value : fallback)
+    .split(",")
+    .map((s) => s.trim().toLowerCase().replace(/^\./, ""))
+    .filter(Boolean);
+}
+
+function positiveInt(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+export function loadUploadPolicy(env: NodeJS.ProcessEnv = process.env): UploadPolicy {
+  return {
+    maxBytes: positiveInt(env.UPLOAD_MAX_BYTES, DEFAULT_MAX_BYTES),
+    extensions: list(env.UPLOAD_ALLOWED_EXTENSIONS, DEFAULT_EXTENSIONS),
+    mimeTypes: list(env.UPLOAD_ALLOWED_MIME_TYPES, DEFAULT_MIME_TYPES),
+    nameMaxLength: positiveInt(env.UPLOAD_NAME_MAX_LENGTH, DEFAULT_NAME_MAX_LENGTH),
+  };
+}
+
+/**
+ * Strips control/format characters (incl. bidi overrides), collapses whitespace
+ * and caps the length in characters, not UTF-16 units.
+ */
+export function sanitizeVideoName(raw: string, maxLength = DEFAULT_NAME_MAX_LENGTH) {
+  const cleaned = raw
+    .replace(/[\p{Cc}\p{Cf}]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return Array.from(cleaned).slice(0, maxLength).join("").trim();
+}
+
+function mimeAllowed(mime: string, patterns: string[]) {
+  return patterns.some((p) =>
+    p.endsWith("/*") ? mime.startsWith(p.slice(0, -1)) : mime === p
+  );
+}
+
+function httpUrl(value: unknown) {
+  if (typeof value !== "string" || !value.trim()) return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "https:" || url.protocol === "http:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function formatBytes(n: number) {
+  const mib = n / (1024 * 1024);
+  if (mib >= 1024) return `${+(mib / 1024).toFixed(2)} GB`;
+  if (mib >= 1) return `${+mib.toFixed(1)} MB`;
+  return `${n} bytes`;
+}
+
+export function validateUploadRequest(
+  body: Record<string, unknown>,
+  policy: UploadPolicy = loadUploadPolicy()
+): { ok: true; value: ValidatedUpload } | { ok: false; errors: ValidationIssue[] } {
+  const errors: ValidationIssue[] = [];
+
+  const approach = (body.approach ?? "tus") as UploadApproach;
+  if (!UPLOAD_APPROACHES.includes(approach)) {
+    errors.push({
+      field: "approach",
+      code: "invalid_approach",
+      message: `The upload approach must be one of: ${UPLOAD_APPROACHES.join(", ")}.`,
+    });
+  }
+
+  let link: string | null = null;
+  if (approach === "pull") {
+    link = httpUrl(body.link);
+    if (!link) {
+      errors.push({
+        field: "link",
+        code: "invalid_link",
+        message: "The video link must be an http(s) URL.",
+      });
+    }
+  }
+
+  let redirect_url: string | null = null;
+  if (approach === "post" && body.redirect_url != null && body.redirect_url !== "") {
+    redirect_url = httpUrl(body.redirect_url);
+    if (!redirect_url) {
+      errors.push({
+        field: "redirect_url",
+        code: "invalid_redirect_url",
+        message: "The redirect URL must be an http(s) URL.",
+      });
+    }
+  }
+
+  // Vimeo works out the size of a pulled file on its own
+  const size = approach === "pull" && body.size == null ? null : body.size;
+  if (
+    size !== null &&
+    (typeof size !== "number" || !Number.isInteger(size) || size <= 0)
+  ) {
+    errors.push({
+      field: "size",
+      code: "invalid_size",
+      message: "The file size is missing or invalid.",
+    });
+  } else if (typeof size === "number" && size > policy.maxBytes) {
+    errors.push({
+      field: "size",
+      code: "file_too_large",
+      message: `This file is too large. The maximum size is ${formatBytes(policy.maxBytes)}.`,
+    });
+  }
+
+  let filename: string | null = null;
+  if (body.filename != null && body.filename !== "") {
+    if (typeof body.filename !== "string") {
+      errors.push({
+        field: "filename",
+        code: "invalid_filename",
+        message: "The file name is invalid.",
+      });
+    } else {
+      filename = sanitizeVideoName(body.filename, 255);
+      const ext = filename.includes(".") ? filename.split(".").pop()!.toLowerCase() : "";
+      if (!ext || !policy.extensions.includes(ext)) {
+        errors.push({
+          field: "filename",
+          code: "extension_not_allowed",
+          message: `This file type isn't supported. Allowed types: ${policy.extensions.join(", ")}.`,
+        });
+      }
+    }
+  }
+
+  let mime_type: string | null = null;
+  if (body.mime_type != null && body.mime_type !== "") {
+    mime_type =
+      typeof body.mime_type === "string" ? body.mime_type.trim().toLowerCase() : "";
+    if (!/^[a-z0-9.+-]+\/[a-z0-9.+-]+$/.test(mime_type)) {
+      errors.push({
+        field: "mime_type",
+        code: "invalid_mime_type",
+        message: "The file type is invalid.",
+      });
+    } else if (!mimeAllowed(mime_type, policy.mimeTypes)) {
+      errors.push({
+        field: "mime_type",
+        code: "mime_type_not_allowed",
+        message: "This file type isn't supported. Please upload a video file.",
+      });
+    }
+  }
+
+  if (body.name != null && typeof body.name !== "string") {
+    errors.push({
+      field: "name",
+      code: "invalid_name",
+      message: "The video name is invalid.",
+    });
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  const rawName = typeof body.name === "string" && body.name ? body.name : filename || "";
+  const name = sanitizeVideoName(rawName, policy.nameMaxLength) || FALLBACK_NAME;
+
+  return {
+    ok: true,
+    value: {
+      approach,
+      size: size as number | null,
+      name,
+      link,
+      redirect_url,
+      filename,
+      mime_type,
+    },
+  };
+}
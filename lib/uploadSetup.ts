@@ -0,0 +1,48 @@
+// lib/uploadSetup.ts
+import { logger } from "@/lib/log";
+import type { UploadProfile } from "@/lib/profiles";
+import type { VimeoVideoMetadata } from "@/lib/uploadMetadata";
+import type { VimeoClient } from "@/lib/vimeo";
+
+const log = logger("upload-setup");
+
+// fulfilled true means Vimeo took it; a refusal or a thrown error is false
+function settledOk(results: PromiseSettledResult<boolean>[], what: string) {
+  for (const r of results) {
+    if (r.status === "rejected") {
+      log.warn(`${what} failed`, { error: r.reason });
+    }
+  }
+  return results.every((r) => r.status === "fulfilled" && r.value);
+}
+
+/**
+ * What lib/createUpload.ts does to a freshly created video: file it in the
+ * profile's folder, then set the tags and embed domains Vimeo won't take at
+ * creation time. All best-effort and never throws: false means Vimeo refused
+ * or the call failed (timeout, rate limit), null that nothing was asked.
+ */
+export async function setUpNewVideo(
+  vimeo: VimeoClient,
+  profile: UploadProfile,
+  video_id: string,
+  metadata: VimeoVideoMetadata
+) {
+  const folderId = profile.folder_id;
+  const tags = metadata.tags?.length ? metadata.tags : null;
+  const domains = metadata.embed_domains ?? [];
+
+  const [folder, tagged, embeds] = await Promise.all([
+    Promise.allSettled(
+      folderId ? [vimeo.addToFolder({ folderId, videoId: video_id })] : []
+    ),
+    Promise.allSettled(tags ? [vimeo.setTags(video_id, tags)] : []),
+    Promise.allSettled(domains.map((d) => vimeo.addEmbedDomain(video_id, d))),
+  ]);
+
+  return {
+    folder_add_ok: folderId ? settledOk(folder, "folder add") : false,
+    tags_ok: tags ? settledOk(tagged, "tags") : null,
+    embed_domains_ok: domains.length ? settledOk(embeds, "embed domain") : null,
+  };
+}
@@ -0,0 +1,91 @@
+// lib/uploadStatus.ts
+import {
+  applyTransition,
+  canTransition,
+  type UploadState,
+} from "@/lib/uploadLifecycle";
+import {
+  transitionUpload,
+  updateUpload,
+  type UploadRecord,
+} from "@/lib/uploadStore";
+import { vimeoForRecord } from "@/lib/profiles";
+import type { VimeoVideoStatus } from "@/lib/vimeo";
+
+/** Where Vimeo's view of a video puts it in our lifecycle (null: no opinion). */
+export function stateForVimeoStatus(vimeo: VimeoVideoStatus): UploadState | null {
+  if (!vimeo.found) return null;
+  if (vimeo.errored) return "failed";
+  if (vimeo.ready) return "available";
+  if (vimeo.upload_status === "complete") return "transcoding";
+  return null;
+}
+
+/**
+ * Asks Vimeo where a video is and moves the record forward to match.
+ * Never moves a record backwards: a confirmed video that finishes transcoding
+ * stays confirmed, but one whose transcode errors becomes failed.
+ * What Vimeo said is kept on the record as `vimeo_status`.
+ * With `persist: false` the move is only computed (dry runs), never written.
+ */
+export async function refreshUploadStatus(
+  rec: UploadRecord,
+  opts: { persist?: boolean } = {}
+) {
+  // ask with the credentials of the account that owns the video
+  const client = vimeoForRecord(rec);
+  if (!client) throw new Error(`Unknown upload profile "${rec.profile}"`);
+  const vimeo = await client.getVideoStatus(rec.video_id);
+  const target = stateForVimeoStatus(vimeo);
+
+  const at = new Date().toISOString();
+  const vimeo_status = {
+    found: vimeo.found,
+    status: vimeo.status,
+    upload: vimeo.upload_status,
+    transcode: vimeo.transcode_status,
+    checked_at: at,
+  };
+
+  let record: UploadRecord = { ...rec, vimeo_status };
+  if (target && target !== rec.state && canTransition(rec.state, target)) {
+    const note =
+      target === "failed"
+        ? `vimeo upload=${vimeo.upload_status} transcode=${vimeo.transcode_status}`
+        : undefined;
+    record =
+      opts.persist === false
+        ? applyTransition(record, target, at, note)
+        : ((await transitionUpload(rec.pending_token, target, { at, note })) ?? record);
+  }
+  if (opts.persist !== false) {
+    record = (await updateUpload(rec.pending_token, { vimeo_status })) ?? record;
+  }
+
+  return { record, vimeo };
+}
+
+/**
+ * What Vimeo said at the last check, if that was at most `maxAgeSeconds` ago,
+ * so pollers can be answered without another API call. Null otherwise.
+ */
+export function recentVimeoStatus(
+  rec: UploadRecord,
+  maxAgeSeconds: number,
+  now = Date.now()
+): VimeoVideoStatus | null {
+  const last = rec.vimeo_status;
+  if (!last || maxAgeSeconds <= 0) return null;
+  if (now - Date.parse(last.checked_at) > maxAgeSeconds * 1000) return null;
+
+  // records checked before `found` was kept: a 404 left every field null
+  const found = last.found ?? !!(last.status || last.upload || last.transcode);
+  return {
+    found,
+    status: last.status,
+    upload_status: last.upload,
+    transcode_status: last.transcode,
+    ready: last.upload === "complete" && last.transcode === "complete",
+    errored: last.upload === "error" || last.transcode === "error",
+  };
+}
@@ -1,157 +1,817 @@
 // lib/uploadStore.ts
-import { Redis } from "@upstash/redis";
-
-const redis = Redis.fromEnv();
+import crypto from "crypto";
+import { getKv, type KvStore } from "@/lib/store";
+import type { UploadSubmission } from "@/lib/submission";
+import type { UploadApproach } from "@/lib/uploadPolicy";
+import {
+  applyRestore,
+  applyTransition,
+  IllegalTransitionError,
+  UPLOAD_STATES,
+  type UploadState,
+  type UploadTransition,
+} from "@/lib/uploadLifecycle";
 
 // How long a pending token record should live (key TTL). Cleanup timing is controlled by cron.
 const TTL_SECONDS = Number(process.env.UPLOAD_PENDING_TTL_SECONDS || 6 * 60 * 60); // 6h default
 
+// Confirmed/failed/deleted records are kept this long so we can answer "what happened?"
+const SETTLED_TTL_SECONDS = 30 * 24 * 60 * 60; // 30d
+
+// Tokens that still need a decision from cleanup, scored by created_at
 const INDEX_KEY = "vimeo:pending:index";
-const CONFIRMED_TTL_SECONDS = 30 * 24 * 60 * 60; // 30d
 
-function pendingKey(token: string) {
-  return `vimeo:pending:${token}`;
+// Every upload ever created (until its record expires), scored by created_at;
+// lets the admin API list records in any state
+const ALL_KEY = "vimeo:uploads:all";
+
+// Tokens cleanup gave up on after repeated Vimeo delete failures, scored by when
+const DEAD_LETTER_KEY = "vimeo:pending:dead-letter";
+
+function uploadKey(token: string) {
+  return `vimeo:upload:${token}`;
 }
 
-function confirmedKey(videoId: string) {
-  return `vimeo:confirmed:${videoId}`;
+// Live uploads per client (see lib/rateLimit.ts), scored by created_at
+function clientPendingKey(clientKey: string) {
+  return `vimeo:client:${clientKey}:pending`;
 }
 
-export type PendingRecord = {
-  video_id: string;
-  created_at: string;
-};
+// Reverse index so Vimeo-side events (webhooks) can find the record
+function videoKey(videoId: string) {
+  return `vimeo:video:${videoId}`;
+}
+
+// Confirmed uploads by their submission (lib/submission.ts), scored by
+// created_at like ALL_KEY; emails are hashed so they never appear in key names
+function submissionEmailKey(email: string) {
+  const hash = crypto
+    .createHash("sha256")
+    .update(email.trim().toLowerCase())
+    .digest("hex")
+    .slice(0, 32);
+  return `vimeo:submission:email:${hash}`;
+}
 
-export async function storePendingUpload(args: {
+function submissionFormKey(formId: string) {
+  return `vimeo:submission:form:${formId}`;
+}
+
+/**
+ * One record per upload, keyed by pending_token. `state` plus the
+ * timestamped `transitions` log replace the old pending/confirmed key pair.
+ */
+export type UploadRecord = {
   pending_token: string;
   video_id: string;
+  state: UploadState;
   created_at: string;
-}) {
-  const rec: PendingRecord = {
-    video_id: args.video_id,
-    created_at: args.created_at,
+  updated_at: string;
+  transitions: UploadTransition[];
+  client_key?: string; // hashed IP of the creator (lib/rateLimit.ts)
+  profile?: string; // upload profile (lib/profiles.ts); absent means "default"
+  folder_add_ok?: boolean; // absent when the profile has no folder
+  approach?: UploadApproach; // absent means "tus"
+  // server-side chunked uploads (see lib/chunkedUpload.ts)
+  chunked?: { chunk_size: number; total_chunks: number; completed_at?: string };
+  // tus proxy state (see app/api/vimeo/tus/[token])
+  upload_link?: string; // Vimeo's tus link; never handed to the browser
+  size?: number;
+  upload_offset?: number;
+  last_activity_at?: string;
+  upload_completed_at?: string;
+  confirmed_at?: string;
+  // the form submission sent with the confirmation
+  submission?: UploadSubmission;
+  // confirmed before Vimeo finished transcoding; cleanup keeps watching it
+  awaiting_transcode?: boolean;
+  // Vimeo's view the last time anyone asked (lib/uploadStatus.ts)
+  vimeo_status?: {
+    found?: boolean;
+    status: string | null;
+    upload: string | null;
+    transcode: string | null;
+    checked_at: string;
   };
+  deleted_at?: string;
+  // failed Vimeo deletes (see lib/cleanup.ts); reset when re-queued
+  delete_attempts?: number;
+  last_delete_error?: string;
+  last_delete_attempt_at?: string;
+  next_delete_attempt_at?: string;
+  dead_lettered_at?: string;
+  // set by an admin: cleanup leaves the upload alone until then
+  cleanup_after?: string;
+  // parked in a quarantine folder by cleanup (see lib/quarantine.ts)
+  quarantined_at?: string;
+  quarantine_folder_id?: string;
+  restored_at?: string;
+};
+
+export type ConfirmResult =
+  | { ok: true; already_confirmed?: true }
+  | { ok: false; reason: "pending_token_not_found" | "video_id_mismatch" }
+  | { ok: false; reason: "illegal_state"; state: UploadState };
 
-  // 1) Store pending mapping with TTL
-  await redis.set(pendingKey(args.pending_token), rec, { ex: TTL_SECONDS });
+/** Where a record sits in the cleanup index: its score plus the token as tie-break. */
+export type IndexPosition = { score: number; token: string };
 
-  // 2) Also index this token by time for cleanup scans
-  const score = Date.parse(args.created_at) || Date.now();
-  await redis.zadd(INDEX_KEY, { score, member: args.pending_token });
+export function indexPosition(rec: UploadRecord): IndexPosition {
+  return { score: Date.parse(rec.created_at), token: rec.pending_token };
 }
 
-export async function readPendingUpload(pending_token: string) {
-  return await redis.get<PendingRecord>(pendingKey(pending_token));
+export interface UploadStore {
+  storePendingUpload(args: {
+    pending_token: string;
+    video_id: string;
+    created_at: string;
+    upload_link?: string;
+    size?: number;
+    client_key?: string;
+    profile?: string;
+    folder_add_ok?: boolean;
+    approach?: UploadApproach;
+    chunked?: UploadRecord["chunked"];
+  }): Promise<UploadRecord>;
+  readUpload(pending_token: string): Promise<UploadRecord | null>;
+  findUploadByVideoId(video_id: string): Promise<UploadRecord | null>;
+  /**
+   * Moves a record to `to`. Returns null if the record is gone;
+   * throws IllegalTransitionError if the move isn't allowed.
+   */
+  transitionUpload(
+    pending_token: string,
+    to: UploadState,
+    opts: { at: string; note?: string }
+  ): Promise<UploadRecord | null>;
+  /** Merges non-state fields into a record (null if gone). */
+  updateUpload(
+    pending_token: string,
+    patch: Partial<Omit<UploadRecord, "pending_token" | "state" | "transitions">>
+  ): Promise<UploadRecord | null>;
+  recordUploadProgress(
+    pending_token: string,
+    progress: { offset: number; at: string }
+  ): Promise<UploadRecord | null>;
+  /**
+   * Confirms an upload, storing `submission` with it and indexing it for
+   * listUploads' email / form_id filters. A repeat confirm keeps the first
+   * submission.
+   */
+  confirmPendingUpload(args: {
+    pending_token: string;
+    video_id: string;
+    confirmed_at: string;
+    submission?: UploadSubmission;
+    /** Video wasn't ready yet: keep it indexed so cleanup re-checks it. */
+    awaiting_transcode?: boolean;
+  }): Promise<ConfirmResult>;
+  /**
+   * Indexed records created before `cutoffISO`, oldest first. `after` resumes
+   * a scan just past a record returned earlier (see indexPosition).
+   */
+  listExpiredPending(
+    cutoffISO: string,
+    limit: number,
+    opts?: { after?: IndexPosition }
+  ): Promise<UploadRecord[]>;
+  /** Uploads this client created that are neither confirmed, failed nor deleted. */
+  countPendingForClient(client_key: string): Promise<number>;
+  markDeleted(
+    pending_token: string,
+    deleted_at: string,
+    note?: string
+  ): Promise<{ ok: boolean }>;
+  /**
+   * Moves a live record to `quarantined`. It stays in the cleanup index, which
+   * deletes it for good once the quarantine grace period is over. Null if the
+   * record is gone; throws IllegalTransitionError for settled records.
+   */
+  markQuarantined(
+    pending_token: string,
+    quarantine: { at: string; folder_id: string; note?: string }
+  ): Promise<UploadRecord | null>;
+  /**
+   * Takes a record out of quarantine, back to the state it was quarantined
+   * from. `hold_until` keeps cleanup away for a while (see holdUpload).
+   * Null if the record is gone; throws IllegalTransitionError unless quarantined.
+   */
+  restoreUpload(
+    pending_token: string,
+    restore: { at: string; hold_until?: string; note?: string }
+  ): Promise<UploadRecord | null>;
+  /**
+   * Notes a failed Vimeo delete. `next_attempt_at` holds cleanup off until
+   * then; `dead_letter` takes the record out of the cleanup index for good.
+   */
+  recordDeleteFailure(
+    pending_token: string,
+    failure: {
+      at: string;
+      error: string;
+      attempts: number;
+      next_attempt_at: string | null;
+      dead_letter?: boolean;
+    }
+  ): Promise<UploadRecord | null>;
+  /** Dead-lettered records, oldest first, plus how many there are in total. */
+  listDeadLetters(opts?: {
+    offset?: number;
+    count?: number;
+  }): Promise<{ total: number; records: UploadRecord[] }>;
+  /** Puts a dead-lettered record back in the cleanup index with a fresh attempt count. */
+  requeueDeadLetter(pending_token: string): Promise<UploadRecord | null>;
+  /**
+   * Every known upload, newest first, optionally narrowed by state and by a
+   * created_at window. `next_offset` (null at the end) continues the scan.
+   */
+  listUploads(filter?: UploadFilter): Promise<{
+    records: UploadRecord[];
+    next_offset: number | null;
+  }>;
+  /**
+   * Keeps cleanup away from an upload until `until`, stretching the record's
+   * TTL so it outlives the hold. Null if the record is gone.
+   */
+  holdUpload(pending_token: string, until: string): Promise<UploadRecord | null>;
+  /**
+   * How many uploads created since `created_after` are in each state.
+   * Reads at most `max` records, newest first; `truncated` says it stopped there.
+   */
+  countUploads(opts?: { created_after?: string; max?: number }): Promise<{
+    counts: Record<UploadState, number>;
+    scanned: number;
+    truncated: boolean;
+  }>;
 }
 
+export type UploadFilter = {
+  states?: UploadState[];
+  /** Only uploads confirmed with this submission email / form_id. */
+  email?: string;
+  form_id?: string;
+  created_after?: string;
+  created_before?: string;
+  offset?: number;
+  limit?: number;
+};
+
 /**
- * Returns true if this videoId has been confirmed (form submitted).
- * Cleanup uses this to avoid deleting confirmed uploads even if pending state lingers.
+ * Upload bookkeeping on top of any KvStore backend (Upstash, memory, file).
+ * Key layout is the same for every backend.
  */
-export async function isConfirmed(videoId: string) {
-  const key = confirmedKey(videoId);
-  const v = await redis.get(key);
-  return !!v;
-}
+export function createUploadStore(kv: KvStore): UploadStore {
+  // Live records keep the TTL they were created with; settled ones get the long retention.
+  async function save(rec: UploadRecord) {
+    const key = uploadKey(rec.pending_token);
+    const live =
+      rec.state !== "confirmed" &&
+      rec.state !== "quarantined" &&
+      rec.state !== "failed" &&
+      rec.state !== "deleted";
+    // dead letters wait for a human, so they get the long retention too
+    if (live && !rec.dead_lettered_at) await kv.set(key, rec, { keepTtl: true });
+    else await kv.set(key, rec, { ex: SETTLED_TTL_SECONDS });
 
-export async function confirmPendingUpload(args: {
-  pending_token: string;
-  video_id: string;
-  confirmed_at: string;
-}) {
-  const key = pendingKey(args.pending_token);
-  const rec = await redis.get<PendingRecord>(key);
-
-  // If token missing/expired, still mark confirmed (helps if you change flows later)
-  if (!rec) {
-    await redis.set(
-      confirmedKey(args.video_id),
-      { confirmed_at: args.confirmed_at, note: "pending_token_not_found" },
-      { ex: CONFIRMED_TTL_SECONDS }
-    );
-
-    // best-effort: try removing from index anyway
-    await redis.zrem(INDEX_KEY, args.pending_token).catch(() => {});
-
-    return { ok: false, reason: "pending_token_not_found" as const };
+    // confirmed/deleted records no longer need a cleanup decision; failed ones
+    // and confirmations still waiting on a transcode do
+    const settled =
+      rec.state === "deleted" ||
+      (rec.state === "confirmed" && !rec.awaiting_transcode);
+    if (settled) await kv.zrem(INDEX_KEY, rec.pending_token);
+
+    // Any decision frees the client's concurrency slot
+    if (!live && rec.client_key) {
+      await kv.zrem(clientPendingKey(rec.client_key), rec.pending_token);
+    }
   }
 
-  if (rec.video_id !== args.video_id) {
-    // Do NOT remove pending state (it belongs to a different video id)
-    // But still set confirmed marker for safety
-    await redis.set(
-      confirmedKey(args.video_id),
-      { confirmed_at: args.confirmed_at, note: "video_id_mismatch" },
-      { ex: CONFIRMED_TTL_SECONDS }
-    );
-    return { ok: false, reason: "video_id_mismatch" as const };
+  async function transition(
+    pending_token: string,
+    to: UploadState,
+    opts: { at: string; note?: string },
+    patch: Partial<UploadRecord> = {}
+  ) {
+    const rec = await kv.get<UploadRecord>(uploadKey(pending_token));
+    if (!rec) return null;
+
+    const next = { ...applyTransition(rec, to, opts.at, opts.note), ...patch };
+    await save(next);
+    return next;
   }
 
-  // Mark confirmed and remove pending record + index entry
-  await redis.set(
-    confirmedKey(args.video_id),
-    { confirmed_at: args.confirmed_at },
-    { ex: CONFIRMED_TTL_SECONDS }
-  );
+  return {
+    async storePendingUpload(args) {
+      const rec: UploadRecord = {
+        pending_token: args.pending_token,
+        video_id: args.video_id,
+        state: "created",
+        created_at: args.created_at,
+        updated_at: args.created_at,
+        transitions: [{ from: null, to: "created", at: args.created_at }],
+      };
+      if (args.client_key) rec.client_key = args.client_key;
+      if (args.profile) rec.profile = args.profile;
+      if (args.folder_add_ok != null) rec.folder_add_ok = args.folder_add_ok;
+      if (args.approach && args.approach !== "tus") rec.approach = args.approach;
+      if (args.chunked) rec.chunked = args.chunked;
+      if (args.size != null) rec.size = args.size;
+      if (args.upload_link) {
+        rec.upload_link = args.upload_link;
+        rec.upload_offset = 0;
+      }
 
-  await redis.del(key);
-  await redis.zrem(INDEX_KEY, args.pending_token);
+      // 1) Store the record with TTL
+      await kv.set(uploadKey(args.pending_token), rec, { ex: TTL_SECONDS });
 
-  return { ok: true };
-}
+      // 2) Also index this token by time for cleanup scans (and the admin API)
+      const score = Date.parse(args.created_at) || Date.now();
+      await kv.zadd(INDEX_KEY, { score, member: args.pending_token });
+      await kv.zadd(ALL_KEY, { score, member: args.pending_token });
 
-/**
- * Returns pending records older than cutoffISO, up to limit.
- * Also prunes orphan index members (tokens whose pending keys no longer exist).
- */
-export async function listExpiredPending(cutoffISO: string, limit: number) {
-  const cutoffMs = Date.parse(cutoffISO);
-  if (!Number.isFinite(cutoffMs)) return [];
-
-  // tokens older than cutoff (by score)
-  const raw = await redis.zrange(
-    INDEX_KEY,
-    "-inf",
-    cutoffMs,
-    {
-      byScore: true,
-      offset: 0,
-      count: limit,
-    } as any
-  );
-
-  const tokens = (raw as unknown[]).map((t) => String(t));
-  if (!tokens.length) return [];
-
-  const recs = await Promise.all(
-    tokens.map((token) => redis.get<PendingRecord>(pendingKey(token)))
-  );
-
-  const results: Array<PendingRecord & { pending_token: string }> = [];
-  const orphans: string[] = [];
-
-  for (let i = 0; i < tokens.length; i++) {
-    const token = tokens[i];
-    const rec = recs[i];
-    if (rec) results.push({ ...rec, pending_token: token });
-    else orphans.push(token);
-  }
+      // 3) video_id → token, living as long as a settled record could
+      await kv.set(videoKey(args.video_id), args.pending_token, {
+        ex: SETTLED_TTL_SECONDS,
+      });
 
-  // prune orphaned zset members so cleanup doesn't get stuck with garbage
-  if (orphans.length) {
-    await redis.zrem(INDEX_KEY, ...orphans);
-  }
+      // 4) Count against the creator's concurrent-pending budget
+      if (args.client_key) {
+        const key = clientPendingKey(args.client_key);
+        await kv.zadd(key, { score, member: args.pending_token });
+        await kv.expire(key, TTL_SECONDS);
+      }
+
+      return rec;
+    },
+
+    async readUpload(pending_token) {
+      return await kv.get<UploadRecord>(uploadKey(pending_token));
+    },
+
+    async findUploadByVideoId(video_id) {
+      const token = await kv.get<string>(videoKey(video_id));
+      if (!token) return null;
+
+      const rec = await kv.get<UploadRecord>(uploadKey(String(token)));
+      // the token could in theory be reused; trust only a matching record
+      return rec && rec.video_id === video_id ? rec : null;
+    },
+
+    async transitionUpload(pending_token, to, opts) {
+      return await transition(pending_token, to, opts);
+    },
+
+    async updateUpload(pending_token, patch) {
+      const rec = await kv.get<UploadRecord>(uploadKey(pending_token));
+      if (!rec) return null;
+
+      const next = { ...rec, ...patch };
+      await save(next);
+      return next;
+    },
+
+    /**
+     * Called by the tus proxy after each chunk Vimeo accepts.
+     * Moves created → uploading on the first bytes and → uploaded once
+     * the declared size has landed. Returns the updated record (null if gone).
+     */
+    async recordUploadProgress(pending_token, progress) {
+      const rec = await kv.get<UploadRecord>(uploadKey(pending_token));
+      if (!rec) return null;
+
+      let next: UploadRecord = {
+        ...rec,
+        upload_offset: progress.offset,
+        last_activity_at: progress.at,
+      };
+
+      const complete = rec.size != null && progress.offset >= rec.size;
+      if (complete && !rec.upload_completed_at) {
+        next.upload_completed_at = progress.at;
+      }
+
+      // Progress never drags a record backwards (e.g. a HEAD after confirmation)
+      if (complete && (next.state === "created" || next.state === "uploading")) {
+        next = applyTransition(next, "uploaded", progress.at);
+      } else if (progress.offset > 0 && next.state === "created") {
+        next = applyTransition(next, "uploading", progress.at);
+      }
+
+      await save(next);
+      return next;
+    },
+
+    async confirmPendingUpload(args) {
+      const rec = await kv.get<UploadRecord>(uploadKey(args.pending_token));
+
+      if (!rec) {
+        // best-effort: try removing from index anyway
+        await kv.zrem(INDEX_KEY, args.pending_token).catch(() => {});
+        return { ok: false, reason: "pending_token_not_found" };
+      }
+
+      if (rec.video_id !== args.video_id) {
+        // Do NOT touch the record (it belongs to a different video id)
+        return { ok: false, reason: "video_id_mismatch" };
+      }
+
+      if (rec.state === "confirmed") return { ok: true, already_confirmed: true };
+
+      const patch: Partial<UploadRecord> = { confirmed_at: args.confirmed_at };
+      if (args.awaiting_transcode) patch.awaiting_transcode = true;
+      if (args.submission) patch.submission = args.submission;
+
+      try {
+        if (rec.state === "quarantined") {
+          // the restore before it failed; confirm anyway so the submission
+          // isn't lost, leaving the video in the quarantine folder
+          const next: UploadRecord = {
+            ...applyRestore(rec, "confirmed", args.confirmed_at, "confirmed_in_quarantine"),
+            ...patch,
+          };
+          delete next.quarantined_at;
+          await save(next);
+        } else {
+          await transition(
+            args.pending_token,
+            "confirmed",
+            {
+              at: args.confirmed_at,
+              note: args.awaiting_transcode ? "awaiting_transcode" : undefined,
+            },
+            patch
+          );
+        }
+      } catch (err) {
+        if (err instanceof IllegalTransitionError) {
+          return { ok: false, reason: "illegal_state", state: err.from };
+        }
+        throw err;
+      }
+
+      const { email, form_id } = args.submission ?? {};
+      const keys = [
+        email ? submissionEmailKey(email) : null,
+        form_id ? submissionFormKey(form_id) : null,
+      ].filter((k): k is string => !!k);
+      for (const key of keys) {
+        const score = Date.parse(rec.created_at) || Date.now();
+        await kv.zadd(key, { score, member: args.pending_token });
+        await kv.expire(key, SETTLED_TTL_SECONDS);
+      }
+
+      return { ok: true };
+    },
+
+    /**
+     * Returns records older than cutoffISO that still await a cleanup decision, up to limit.
+     * Also prunes orphan index members (tokens whose records no longer exist).
+     */
+    async listExpiredPending(cutoffISO, limit, opts = {}) {
+      const cutoffMs = Date.parse(cutoffISO);
+      if (!Number.isFinite(cutoffMs)) return [];
+
+      const after = opts.after;
+      // members sharing a score come back in token order, same as Redis
+      const seen = (rec: UploadRecord) =>
+        !!after &&
+        Date.parse(rec.created_at) <= after.score &&
+        rec.pending_token <= after.token;
+
+      const results: UploadRecord[] = [];
+      let offset = 0;
+
+      while (results.length < limit) {
+        // tokens older than cutoff (by score)
+        const tokens = await kv.zrangeByScore(
+          INDEX_KEY,
+          after ? after.score : -Infinity,
+          cutoffMs,
+          { offset, count: limit }
+        );
+        if (!tokens.length) break;
+
+        const recs = await Promise.all(
+          tokens.map((token) => kv.get<UploadRecord>(uploadKey(token)))
+        );
+
+        const orphans: string[] = [];
+        for (let i = 0; i < tokens.length; i++) {
+          const rec = recs[i];
+          if (!rec) orphans.push(tokens[i]);
+          else if (!seen(rec)) results.push(rec);
+        }
+
+        // prune orphaned zset members so cleanup doesn't get stuck with garbage
+        if (orphans.length) {
+          await kv.zrem(INDEX_KEY, ...orphans);
+        }
 
-  return results;
+        if (tokens.length < limit) break;
+        offset += tokens.length - orphans.length;
+      }
+
+      return results.slice(0, limit);
+    },
+
+    async countPendingForClient(client_key) {
+      const key = clientPendingKey(client_key);
+      // records older than the pending TTL have expired without a decision
+      await kv.zremRangeByScore(key, -Infinity, Date.now() - TTL_SECONDS * 1000);
+      return await kv.zcard(key);
+    },
+
+    /**
+     * Called by cleanup after Vimeo deletion succeeds (or when Vimeo tells us
+     * the video is gone). Moves the record to `deleted` and drops it from the
+     * cleanup index.
+     */
+    async markDeleted(pending_token, deleted_at, note = "cleanup") {
+      const rec = await transition(
+        pending_token,
+        "deleted",
+        { at: deleted_at, note },
+        { deleted_at }
+      );
+      if (!rec) await kv.zrem(INDEX_KEY, pending_token);
+      await kv.zrem(DEAD_LETTER_KEY, pending_token);
+      return { ok: !!rec };
+    },
+
+    async markQuarantined(pending_token, quarantine) {
+      return await transition(
+        pending_token,
+        "quarantined",
+        { at: quarantine.at, note: quarantine.note ?? "cleanup" },
+        {
+          quarantined_at: quarantine.at,
+          quarantine_folder_id: quarantine.folder_id,
+        }
+      );
+    },
+
+    async restoreUpload(pending_token, restore) {
+      const rec = await kv.get<UploadRecord>(uploadKey(pending_token));
+      if (!rec) return null;
+      if (rec.state !== "quarantined") {
+        throw new IllegalTransitionError(rec.state, "created");
+      }
+
+      const entered = rec.transitions.findLast((t) => t.to === "quarantined");
+      const back = entered?.from ?? "created";
+      const next: UploadRecord = {
+        ...applyRestore(rec, back, restore.at, restore.note ?? "restored"),
+        restored_at: restore.at,
+      };
+      delete next.quarantined_at;
+      delete next.quarantine_folder_id;
+      if (restore.hold_until) next.cleanup_after = restore.hold_until;
+      await save(next);
+      return next;
+    },
+
+    async recordDeleteFailure(pending_token, failure) {
+      const rec = await kv.get<UploadRecord>(uploadKey(pending_token));
+      if (!rec) return null;
+
+      const next: UploadRecord = {
+        ...rec,
+        updated_at: failure.at,
+        delete_attempts: failure.attempts,
+        last_delete_error: failure.error,
+        last_delete_attempt_at: failure.at,
+      };
+      if (failure.next_attempt_at) next.next_delete_attempt_at = failure.next_attempt_at;
+      else delete next.next_delete_attempt_at;
+
+      if (failure.dead_letter) {
+        next.dead_lettered_at = failure.at;
+        delete next.next_delete_attempt_at;
+      }
+      await save(next);
+
+      if (failure.dead_letter) {
+        await kv.zrem(INDEX_KEY, pending_token);
+        await kv.zadd(DEAD_LETTER_KEY, {
+          score: Date.parse(failure.at) || Date.now(),
+          member: pending_token,
+        });
+      }
+      return next;
+    },
+
+    async listDeadLetters(opts = {}) {
+      const tokens = await kv.zrangeByScore(DEAD_LETTER_KEY, -Infinity, Infinity, {
+        offset: opts.offset ?? 0,
+        count: opts.count ?? 50,
+      });
+      const recs = await Promise.all(
+        tokens.map((token) => kv.get<UploadRecord>(uploadKey(token)))
+      );
+
+      const orphans = tokens.filter((_, i) => !recs[i]);
+      if (orphans.length) await kv.zrem(DEAD_LETTER_KEY, ...orphans);
+
+      return {
+        total: await kv.zcard(DEAD_LETTER_KEY),
+        records: recs.filter((r): r is UploadRecord => !!r),
+      };
+    },
+
+    async requeueDeadLetter(pending_token) {
+      const rec = await kv.get<UploadRecord>(uploadKey(pending_token));
+      await kv.zrem(DEAD_LETTER_KEY, pending_token);
+      if (!rec || !rec.dead_lettered_at) return null;
+
+      const next: UploadRecord = {
+        ...rec,
+        updated_at: new Date().toISOString(),
+        delete_attempts: 0,
+      };
+      delete next.dead_lettered_at;
+      delete next.next_delete_attempt_at;
+      await save(next);
+
+      await kv.zadd(INDEX_KEY, {
+        score: Date.parse(rec.created_at) || Date.now(),
+        member: pending_token,
+      });
+      return next;
+    },
+
+    async listUploads(filter = {}) {
+      const limit = filter.limit ?? 50;
+      const min = filter.created_after ? Date.parse(filter.created_after) : -Infinity;
+      const max = filter.created_before ? Date.parse(filter.created_before) : Infinity;
+      if (Number.isNaN(min) || Number.isNaN(max)) return { records: [], next_offset: null };
+
+      const records: UploadRecord[] = [];
+      let offset = filter.offset ?? 0;
+
+      // a submission filter walks its (much smaller) index instead of every upload
+      const email = filter.email?.trim().toLowerCase();
+      const key = email
+        ? submissionEmailKey(email)
+        : filter.form_id
+          ? submissionFormKey(filter.form_id)
+          : ALL_KEY;
+
+      // filtering by state happens after the read, so keep paging until the page is full
+      while (records.length < limit) {
+        const tokens = await kv.zrangeByScore(key, min, max, {
+          offset,
+          count: limit,
+          rev: true,
+        });
+        if (!tokens.length) return { records, next_offset: null };
+
+        const recs = await Promise.all(
+          tokens.map((token) => kv.get<UploadRecord>(uploadKey(token)))
+        );
+
+        const orphans = tokens.filter((_, i) => !recs[i]);
+        if (orphans.length) await kv.zrem(key, ...orphans);
+
+        let consumed = 0;
+        for (const rec of recs) {
+          if (records.length >= limit) break;
+          consumed++;
+          if (!rec) continue;
+          if (filter.states?.length && !filter.states.includes(rec.state)) continue;
+          if (email && rec.submission?.email !== email) continue;
+          if (filter.form_id && rec.submission?.form_id !== filter.form_id) continue;
+          records.push(rec);
+        }
+
+        // pruned orphans no longer occupy a slot in the index
+        const orphansConsumed = recs.slice(0, consumed).filter((r) => !r).length;
+        offset += consumed - orphansConsumed;
+        if (tokens.length < limit && consumed === tokens.length) {
+          return { records, next_offset: null };
+        }
+      }
+
+      return { records, next_offset: offset };
+    },
+
+    async holdUpload(pending_token, until) {
+      const rec = await kv.get<UploadRecord>(uploadKey(pending_token));
+      if (!rec) return null;
+
+      const next: UploadRecord = {
+        ...rec,
+        updated_at: new Date().toISOString(),
+        cleanup_after: until,
+      };
+      await save(next);
+
+      // the record must not expire before cleanup is allowed to look at it
+      // again (save() already gave settled/dead-lettered ones the long TTL)
+      const holdSeconds = Math.ceil((Date.parse(until) - Date.now()) / 1000);
+      const longTtl =
+        !!next.dead_lettered_at ||
+        next.state === "confirmed" ||
+        next.state === "failed" ||
+        next.state === "deleted";
+      if (holdSeconds > 0 && (!longTtl || holdSeconds > SETTLED_TTL_SECONDS)) {
+        await kv.expire(uploadKey(pending_token), holdSeconds + TTL_SECONDS);
+      }
+      return next;
+    },
+
+    async countUploads(opts = {}) {
+      const max = opts.max ?? 1000;
+      const min = opts.created_after ? Date.parse(opts.created_after) : -Infinity;
+      const counts = Object.fromEntries(UPLOAD_STATES.map((s) => [s, 0])) as Record<
+        UploadState,
+        number
+      >;
+
+      let scanned = 0;
+      while (scanned < max) {
+        const tokens = await kv.zrangeByScore(ALL_KEY, min, Infinity, {
+          offset: scanned,
+          count: Math.min(200, max - scanned),
+          rev: true,
+        });
+        if (!tokens.length) return { counts, scanned, truncated: false };
+
+        const recs = await Promise.all(
+          tokens.map((token) => kv.get<UploadRecord>(uploadKey(token)))
+        );
+        for (const rec of recs) if (rec) counts[rec.state]++;
+        scanned += tokens.length;
+      }
+
+      return { counts, scanned, truncated: true };
+    },
+  };
 }
 
-/**
- * Called by cleanup after Vimeo deletion succeeds.
- * Removes pending key + index member.
- */
-export async function markDeleted(pending_token: string, deleted_at: string) {
-  // deleted_at isn't stored right now, but we accept it for API compatibility
-  await redis.del(pendingKey(pending_token));
-  await redis.zrem(INDEX_KEY, pending_token);
-  return { ok: true };
+let shared: { kv: KvStore; store: UploadStore } | null = null;
+
+/** The store the routes use, bound to whichever backend UPLOAD_STORE selects. */
+export function getUploadStore(): UploadStore {
+  const kv = getKv();
+  if (!shared || shared.kv !== kv) shared = { kv, store: createUploadStore(kv) };
+  return shared.store;
 }
+
+export const storePendingUpload: UploadStore["storePendingUpload"] = (args) =>
+  getUploadStore().storePendingUpload(args);
+
+export const readUpload: UploadStore["readUpload"] = (token) =>
+  getUploadStore().readUpload(token);
+
+export const findUploadByVideoId: UploadStore["findUploadByVideoId"] = (videoId) =>
+  getUploadStore().findUploadByVideoId(videoId);
+
+export const transitionUpload: UploadStore["transitionUpload"] = (token, to, opts) =>
+  getUploadStore().transitionUpload(token, to, opts);
+
+export const updateUpload: UploadStore["updateUpload"] = (token, patch) =>
+  getUploadStore().updateUpload(token, patch);
+
+export const recordUploadProgress: UploadStore["recordUploadProgress"] = (
+  token,
+  progress
+) => getUploadStore().recordUploadProgress(token, progress);
+
+export const confirmPendingUpload: UploadStore["confirmPendingUpload"] = (args) =>
+  getUploadStore().confirmPendingUpload(args);
+
+export const listExpiredPending: UploadStore["listExpiredPending"] = (
+  cutoffISO,
+  limit,
+  opts
+) => getUploadStore().listExpiredPending(cutoffISO, limit, opts);
+
+export const countPendingForClient: UploadStore["countPendingForClient"] = (clientKey) =>
+  getUploadStore().countPendingForClient(clientKey);
+
+export const markDeleted: UploadStore["markDeleted"] = (token, deletedAt, note) =>
+  getUploadStore().markDeleted(token, deletedAt, note);
+
+export const markQuarantined: UploadStore["markQuarantined"] = (token, quarantine) =>
+  getUploadStore().markQuarantined(token, quarantine);
+
+export const restoreUpload: UploadStore["restoreUpload"] = (token, restore) =>
+  getUploadStore().restoreUpload(token, restore);
+
+export const recordDeleteFailure: UploadStore["recordDeleteFailure"] = (token, failure) =>
+  getUploadStore().recordDeleteFailure(token, failure);
+
+export const listDeadLetters: UploadStore["listDeadLetters"] = (opts) =>
+  getUploadStore().listDeadLetters(opts);
+
+export const requeueDeadLetter: UploadStore["requeueDeadLetter"] = (token) =>
+  getUploadStore().requeueDeadLetter(token);
+
+export const listUploads: UploadStore["listUploads"] = (filter) =>
+  getUploadStore().listUploads(filter);
+
+export const holdUpload: UploadStore["holdUpload"] = (token, until) =>
+  getUploadStore().holdUpload(token, until);
+
+export const countUploads: UploadStore["countUploads"] = (opts) =>
+  getUploadStore().countUploads(opts);
@@ -1,96 +1,651 @@
 // lib/vimeo.ts
-const VIMEO_TOKEN = process.env.VIMEO_TOKEN || "";
-const DEFAULT_PRIVACY = process.env.VIMEO_DEFAULT_PRIVACY || "unlisted";
-
-function vimeoHeaders() {
-  if (!VIMEO_TOKEN) throw new Error("Missing VIMEO_TOKEN");
-  return {
-    Authorization: `Bearer ${VIMEO_TOKEN}`,
-    Accept: "application/vnd.vimeo.*+json;version=3.4",
+import { recordVimeoCall } from "@/lib/metrics";
+import type { VimeoVideoMetadata } from "@/lib/uploadMetadata";
+import { accountKey, storeBudget, type VimeoBudget } from "@/lib/vimeoBudget";
+import {
+  VimeoRateLimitError,
+  VimeoTimeoutError,
+  VimeoUnavailableError,
+  vimeoErrorFor,
+} from "@/lib/vimeoErrors";
+
+// Every call goes through VimeoClient.request():
+//
+//   VIMEO_TIMEOUT_MS         per API call, including reading the body (default 15000)
+//   VIMEO_UPLOAD_TIMEOUT_MS  per tus PATCH chunk (default 300000)
+//   VIMEO_MAX_RETRIES        retries of idempotent calls after a 5xx, timeout or
+//                            network error (default 2); POST/PATCH are never retried
+//
+// Each attempt is reported to the `observe` hook (lib/metrics.ts by default).
+//
+// Failures are thrown as the typed errors in lib/vimeoErrors.ts.
+
+const DEFAULT_BASE_URL = "https://api.vimeo.com";
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]);
+
+export type VimeoClientOptions = {
+  token?: string;
+  /** API root, e.g. a fake Vimeo server in tests. Defaults to https://api.vimeo.com */
+  baseUrl?: string;
+  /** Injectable fetch (defaults to the global one). */
+  fetch?: typeof fetch;
+  defaultPrivacy?: string;
+  timeoutMs?: number;
+  uploadTimeoutMs?: number;
+  maxRetries?: number;
+  /** Shared rate-limit budget (lib/vimeoBudget.ts); null turns it off. */
+  budget?: VimeoBudget | null;
+  /** Told about every attempt (status, latency); null turns it off. */
+  observe?: VimeoCallObserver | null;
+};
+
+export type VimeoCallObserver = (call: {
+  what: string;
+  status: number | "timeout" | "network_error";
+  seconds: number;
+}) => Promise<void>;
+
+type RequestOptions = {
+  /** Names the call in error messages: "create", "status", ... */
+  what: string;
+  /** Defaults to true for GET/HEAD/PUT/DELETE. */
+  idempotent?: boolean;
+  /** Upload links authorize themselves: no token, no API budget. */
+  auth?: boolean;
+  timeoutMs?: number;
+  /** Non-2xx statuses handed back to the caller instead of thrown ("all" for every one). */
+  accept?: number[] | "all";
+};
+
+function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return process.env[name] != null && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export type VimeoUploadApproach = "tus" | "post" | "pull";
+
+export type VimeoVideoStatus = {
+  found: boolean;
+  status: string | null; // e.g. "available", "transcoding", "transcode_starved"
+  upload_status: string | null; // "complete" | "in_progress" | "error"
+  transcode_status: string | null; // "complete" | "in_progress" | "error"
+  ready: boolean;
+  errored: boolean;
+};
+
+/**
+ * How long Vimeo wants us to wait, from Retry-After (seconds or HTTP date) or,
+ * when the rate-limit window is used up, X-RateLimit-Reset. Null if it didn't say.
+ */
+export function retryAfterSeconds(resp: Response, now = Date.now()) {
+  const toSeconds = (value: string) => {
+    const n = Number(value);
+    if (value.trim() && Number.isFinite(n)) return Math.max(0, Math.ceil(n));
+    const at = Date.parse(value);
+    return Number.isFinite(at) ? Math.max(0, Math.ceil((at - now) / 1000)) : null;
   };
+
+  const retryAfter = resp.headers.get("retry-after");
+  if (retryAfter) {
+    const s = toSeconds(retryAfter);
+    if (s != null) return s;
+  }
+
+  const reset = resp.headers.get("x-ratelimit-reset");
+  if (reset && (resp.status === 429 || resp.headers.get("x-ratelimit-remaining") === "0")) {
+    const at = Date.parse(reset);
+    if (Number.isFinite(at)) return Math.max(0, Math.ceil((at - now) / 1000));
+  }
+  return null;
+}
+
+// 250ms, 500ms, 1s, ... plus jitter so parallel retries spread out
+function backoffMs(attempt: number) {
+  return 250 * 2 ** attempt + Math.floor(Math.random() * 100);
+}
+
+export class VimeoClient {
+  readonly baseUrl: string;
+  readonly defaultPrivacy: string;
+  private readonly token: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+  private readonly uploadTimeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly budget: VimeoBudget | null;
+  private readonly observe: VimeoCallObserver | null;
+
+  constructor(opts: VimeoClientOptions = {}) {
+    this.token = opts.token ?? "";
+    this.baseUrl = (opts.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.defaultPrivacy = opts.defaultPrivacy || "unlisted";
+    this.fetchImpl = opts.fetch ?? ((input, init) => fetch(input, init));
+    this.timeoutMs = opts.timeoutMs ?? 15_000;
+    this.uploadTimeoutMs = opts.uploadTimeoutMs ?? 300_000;
+    this.maxRetries = opts.maxRetries ?? 2;
+    this.budget = opts.budget === undefined ? null : opts.budget;
+    this.observe = opts.observe ?? null;
+  }
+
+  /**
+   * Client configured from VIMEO_TOKEN / VIMEO_API_BASE_URL / VIMEO_DEFAULT_PRIVACY
+   * and the timeout/retry settings above, sharing the store-backed rate-limit budget.
+   */
+  static fromEnv(overrides: VimeoClientOptions = {}) {
+    return new VimeoClient({
+      token: process.env.VIMEO_TOKEN || "",
+      baseUrl: process.env.VIMEO_API_BASE_URL || DEFAULT_BASE_URL,
+      defaultPrivacy: process.env.VIMEO_DEFAULT_PRIVACY || "unlisted",
+      timeoutMs: envNumber("VIMEO_TIMEOUT_MS", 15_000),
+      uploadTimeoutMs: envNumber("VIMEO_UPLOAD_TIMEOUT_MS", 300_000),
+      maxRetries: envNumber("VIMEO_MAX_RETRIES", 2),
+      budget: storeBudget(),
+      observe: recordVimeoCall,
+      ...overrides,
+    });
+  }
+
+  private headers() {
+    if (!this.token) throw new Error("Missing VIMEO_TOKEN");
+    return {
+      Authorization: `Bearer ${this.token}`,
+      Accept: "application/vnd.vimeo.*+json;version=3.4",
+    };
+  }
+
+  /**
+   * The one way out to Vimeo. `target` is an API path, or a full upload link
+   * when `auth` is false. Returns the response for 2xx and `accept`ed statuses,
+   * throws a VimeoError for everything else.
+   */
+  private async request(target: string, init: RequestInit, opts: RequestOptions) {
+    const method = (init.method || "GET").toUpperCase();
+    const auth = opts.auth !== false;
+    const url = auth ? `${this.baseUrl}${target}` : target;
+    const headers = auth ? { ...this.headers(), ...init.headers } : init.headers;
+    const timeoutMs = opts.timeoutMs ?? this.timeoutMs;
+    const retries = (opts.idempotent ?? IDEMPOTENT_METHODS.has(method)) ? this.maxRetries : 0;
+
+    // Budget problems must never block the call itself, only skip the bookkeeping
+    const account = auth && this.budget ? accountKey(this.token) : null;
+    if (account) {
+      const wait = await this.budget!.check(account).catch(() => null);
+      if (wait != null) {
+        throw new VimeoRateLimitError(
+          `Vimeo ${opts.what} skipped: rate limit spent, resets in ${wait}s`,
+          wait,
+          null
+        );
+      }
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      // the timer stays armed while the caller reads the body, so slow bodies time out too
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      timer.unref?.();
+
+      const started = Date.now();
+      const observe = (status: number | "timeout" | "network_error") =>
+        this.observe?.({
+          what: opts.what,
+          status,
+          seconds: (Date.now() - started) / 1000,
+        }).catch(() => {});
+
+      let resp: Response;
+      try {
+        resp = await this.fetchImpl(url, { ...init, headers, signal: controller.signal });
+      } catch (err: unknown) {
+        clearTimeout(timer);
+        await observe(controller.signal.aborted ? "timeout" : "network_error");
+        if (attempt < retries) {
+          await sleep(backoffMs(attempt));
+          continue;
+        }
+        if (controller.signal.aborted) {
+          throw new VimeoTimeoutError(`Vimeo ${opts.what} timed out after ${timeoutMs}ms`);
+        }
+        throw new VimeoUnavailableError(
+          `Vimeo ${opts.what} failed: ${String((err as Error)?.message || err)}`,
+          null
+        );
+      }
+
+      await observe(resp.status);
+      if (account) await this.budget!.record(account, resp).catch(() => {});
+
+      if (resp.ok) return resp;
+      if (resp.status >= 500 && attempt < retries) {
+        clearTimeout(timer);
+        await resp.body?.cancel().catch(() => {});
+        await sleep(backoffMs(attempt));
+        continue;
+      }
+      if (opts.accept === "all" || opts.accept?.includes(resp.status)) return resp;
+
+      const body = await resp.text().catch(() => "");
+      clearTimeout(timer);
+      throw vimeoErrorFor(opts.what, resp.status, body, retryAfterSeconds(resp));
+    }
+  }
+
+  /**
+   * Creates the video and reserves an upload with one of Vimeo's approaches:
+   *   tus   resumable; bytes go to `upload_link` (our tus proxy forwards them)
+   *   post  `form` is an HTML form that posts the file straight to Vimeo,
+   *         which then redirects to `redirect_url`
+   *   pull  Vimeo downloads the file from `link` itself
+   * Tags and embed domains can't be set at creation time; see setTags /
+   * addEmbedDomain.
+   */
+  async createUpload(args: {
+    approach: VimeoUploadApproach;
+    name: string;
+    /** Required for tus and post; optional for pull. */
+    size?: number;
+    link?: string;
+    redirect_url?: string;
+    metadata?: VimeoVideoMetadata;
+  }) {
+    const meta = args.metadata ?? {};
+    const privacy = { view: this.defaultPrivacy, ...meta.privacy };
+
+    const upload: Record<string, unknown> = { approach: args.approach };
+    if (args.size != null) upload.size = args.size;
+    if (args.approach === "pull") upload.link = args.link;
+    if (args.approach === "post" && args.redirect_url) {
+      upload.redirect_url = args.redirect_url;
+    }
+
+    const resp = await this.request(
+      "/me/videos",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          upload,
+          name: args.name,
+          privacy,
+          ...(meta.description ? { description: meta.description } : {}),
+          ...(meta.content_rating?.length
+            ? { content_rating: meta.content_rating }
+            : {}),
+        }),
+      },
+      { what: "create" }
+    );
+
+    const created = (await resp.json()) as {
+      uri?: string;
+      upload?: { upload_link?: string; form?: string };
+    };
+    const upload_link = created?.upload?.upload_link || null;
+    const form = created?.upload?.form || null;
+    const video_uri: string | undefined = created?.uri; // "/videos/123"
+    const video_id = (video_uri || "").split("/").pop();
+
+    const missing =
+      !video_uri || !video_id
+        ? "video id"
+        : args.approach === "tus" && !upload_link
+          ? "upload_link"
+          : args.approach === "post" && !form
+            ? "upload form"
+            : null;
+    if (missing || !video_uri || !video_id) {
+      throw new VimeoUnavailableError(
+        `Vimeo response missing ${missing}`,
+        resp.status
+      );
+    }
+
+    return {
+      approach: args.approach,
+      upload_link,
+      form,
+      video_id,
+      video_uri,
+      video_url: `https://vimeo.com/${video_id}`,
+      privacy: privacy.view,
+    };
+  }
+
+  /** createUpload with the tus approach. */
+  async createTusUpload(args: {
+    size: number;
+    name: string;
+    metadata?: VimeoVideoMetadata;
+  }) {
+    const created = await this.createUpload({ ...args, approach: "tus" });
+    return {
+      upload_link: created.upload_link!,
+      video_id: created.video_id,
+      video_uri: created.video_uri,
+      video_url: created.video_url,
+      privacy: created.privacy,
+    };
+  }
+
+  /** Replaces the video's tags. */
+  async setTags(videoId: string, tags: string[]) {
+    const resp = await this.request(
+      `/videos/${encodeURIComponent(videoId)}/tags`,
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(tags.map((name) => ({ name }))),
+      },
+      { what: "tags", accept: "all" }
+    );
+    return resp.ok;
+  }
+
+  /** Adds one tag, keeping the ones the video already has. */
+  async addTag(videoId: string, tag: string) {
+    const resp = await this.request(
+      `/videos/${encodeURIComponent(videoId)}/tags/${encodeURIComponent(tag)}`,
+      { method: "PUT" },
+      { what: "tag", accept: "all" }
+    );
+    return resp.ok;
+  }
+
+  /** The video's description ("" when it has none); null if the video is gone. */
+  async getDescription(videoId: string) {
+    const resp = await this.request(
+      `/videos/${encodeURIComponent(videoId)}?fields=description`,
+      { method: "GET" },
+      { what: "description", accept: [404] }
+    );
+    if (resp.status === 404) return null;
+    const body = (await resp.json()) as { description?: string | null };
+    return body?.description ?? "";
+  }
+
+  async setDescription(videoId: string, description: string) {
+    const resp = await this.request(
+      `/videos/${encodeURIComponent(videoId)}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ description }),
+      },
+      { what: "description", accept: "all" }
+    );
+    return resp.ok;
+  }
+
+  /** Allows embedding on `domain` (video must use privacy.embed = "whitelist"). */
+  async addEmbedDomain(videoId: string, domain: string) {
+    const resp = await this.request(
+      `/videos/${encodeURIComponent(videoId)}/privacy/domains/${encodeURIComponent(domain)}`,
+      { method: "PUT" },
+      { what: "embed domain", accept: "all" }
+    );
+    return resp.ok;
+  }
+
+  async addToFolder(args: { folderId: string; videoId: string }) {
+    const resp = await this.request(
+      `/me/folders/${args.folderId}/videos/${encodeURIComponent(args.videoId)}`,
+      { method: "PUT" },
+      { what: "folder add", accept: "all" }
+    );
+    return resp.ok;
+  }
+
+  /** Takes a video out of a folder (it stays in the account, just unfiled). */
+  async removeFromFolder(args: { folderId: string; videoId: string }) {
+    const resp = await this.request(
+      `/me/folders/${args.folderId}/videos/${encodeURIComponent(args.videoId)}`,
+      { method: "DELETE" },
+      { what: "folder remove", accept: "all" }
+    );
+    return resp.ok || resp.status === 404;
+  }
+
+  /**
+   * Delete a Vimeo video.
+   * Returns status/body so callers can log/decide whether to mark deleted in Redis.
+   * Treats 204 (deleted) and 404 (already gone) as success.
+   * `rate_limited` means this call was throttled or used up the rate-limit
+   * window; `retry_after_seconds` is how long Vimeo asked us to back off.
+   * Only throws when no answer came back (timeout, network, budget spent).
+   */
+  async deleteVideo(videoId: string) {
+    const resp = await this.request(
+      `/videos/${encodeURIComponent(videoId)}`,
+      { method: "DELETE" },
+      { what: "delete", accept: "all" }
+    );
+
+    const body = await resp.text().catch(() => "");
+    const rate_limited =
+      resp.status === 429 || resp.headers.get("x-ratelimit-remaining") === "0";
+    const retry_after_seconds = retryAfterSeconds(resp);
+
+    if (resp.status === 204 || resp.status === 404) {
+      return { ok: true, status: resp.status, body, rate_limited, retry_after_seconds };
+    }
+
+    return { ok: false, status: resp.status, body, rate_limited, retry_after_seconds };
+  }
+
+  /**
+   * Reads upload + transcode status for a video.
+   * `ready` means Vimeo has all the bytes and finished transcoding;
+   * `errored` means either step failed and the video will never play.
+   * A 404 comes back as found: false rather than an error.
+   */
+  async getVideoStatus(videoId: string): Promise<VimeoVideoStatus> {
+    const resp = await this.request(
+      `/videos/${encodeURIComponent(videoId)}?fields=uri,status,upload.status,transcode.status`,
+      { method: "GET" },
+      { what: "status", accept: [404] }
+    );
+
+    if (resp.status === 404) {
+      return {
+        found: false,
+        status: null,
+        upload_status: null,
+        transcode_status: null,
+        ready: false,
+        errored: false,
+      };
+    }
+    const video = (await resp.json()) as {
+      status?: string;
+      upload?: { status?: string };
+      transcode?: { status?: string };
+    };
+    const upload_status = video?.upload?.status ?? null;
+    const transcode_status = video?.transcode?.status ?? null;
+
+    return {
+      found: true,
+      status: video?.status ?? null,
+      upload_status,
+      transcode_status,
+      ready: upload_status === "complete" && transcode_status === "complete",
+      errored: upload_status === "error" || transcode_status === "error",
+    };
+  }
+
+  /**
+   * tus HEAD against a Vimeo upload_link: how many bytes Vimeo has so far.
+   * Upload links are self-authorizing, so no bearer token is sent.
+   */
+  async tusHead(uploadLink: string) {
+    const resp = await this.request(
+      uploadLink,
+      { method: "HEAD", headers: { "Tus-Resumable": "1.0.0" } },
+      { what: "tus HEAD", auth: false, accept: "all" }
+    );
+    const offset = Number(resp.headers.get("upload-offset"));
+    return {
+      ok: resp.ok,
+      status: resp.status,
+      offset: Number.isFinite(offset) ? offset : null,
+    };
+  }
+
+  /**
+   * tus PATCH: streams one chunk to the upload_link starting at `offset`.
+   * Returns Vimeo's new Upload-Offset on success.
+   */
+  async tusPatch(
+    uploadLink: string,
+    args: {
+      offset: number;
+      body: ReadableStream<Uint8Array> | Uint8Array;
+      contentLength?: number;
+    }
+  ) {
+    const headers: Record<string, string> = {
+      "Tus-Resumable": "1.0.0",
+      "Upload-Offset": String(args.offset),
+      "Content-Type": "application/offset+octet-stream",
+    };
+    if (args.contentLength != null) {
+      headers["Content-Length"] = String(args.contentLength);
+    }
+
+    // duplex is required by Node's fetch for streamed request bodies
+    const init: RequestInit & { duplex: "half" } = {
+      method: "PATCH",
+      headers,
+      body: args.body as BodyInit,
+      duplex: "half",
+    };
+    const resp = await this.request(uploadLink, init, {
+      what: "tus PATCH",
+      auth: false,
+      timeoutMs: this.uploadTimeoutMs,
+      accept: "all",
+    });
+
+    const offset = Number(resp.headers.get("upload-offset"));
+    const body = resp.ok ? "" : await resp.text().catch(() => "");
+    return {
+      ok: resp.ok,
+      status: resp.status,
+      offset: Number.isFinite(offset) ? offset : null,
+      body,
+    };
+  }
+
+  /**
+   * Asks Vimeo what this token is: valid or not, which scopes it carries
+   * ("upload", "delete", "edit", ...) and whose account it belongs to.
+   * A rejected token comes back as ok: false rather than an error.
+   */
+  async verifyToken() {
+    const resp = await this.request(
+      "/oauth/verify",
+      { method: "GET" },
+      { what: "verify token", accept: [401, 403] }
+    );
+    if (!resp.ok) {
+      await resp.body?.cancel().catch(() => {});
+      return { ok: false, status: resp.status, scopes: [], account: null };
+    }
+
+    const body = (await resp.json()) as {
+      scope?: string;
+      user?: { uri?: string; name?: string };
+    };
+    return {
+      ok: true,
+      status: resp.status,
+      scopes: (body?.scope || "").split(/\s+/).filter(Boolean),
+      account: body?.user?.name ?? body?.user?.uri ?? null,
+    };
+  }
+
+  /** Whether the token's account has this folder (project). */
+  async folderExists(folderId: string) {
+    const resp = await this.request(
+      `/me/folders/${encodeURIComponent(folderId)}?fields=uri`,
+      { method: "GET" },
+      { what: "folder", accept: [404] }
+    );
+    await resp.body?.cancel().catch(() => {});
+    return resp.ok;
+  }
+}
+
+let sharedClient: VimeoClient | null = null;
+
+/** The client the routes use; built from env on first use. */
+export function getVimeoClient() {
+  if (!sharedClient) sharedClient = VimeoClient.fromEnv();
+  return sharedClient;
+}
+
+/** Swap the shared client (tests, scripts). Pass null to rebuild from env on next use. */
+export function setVimeoClient(client: VimeoClient | null) {
+  sharedClient = client;
 }
 
 export async function vimeoCreateTusUpload(args: {
   size: number;
   name: string;
+  metadata?: VimeoVideoMetadata;
 }) {
-  const resp = await fetch("https://api.vimeo.com/me/videos", {
-    method: "POST",
-    headers: {
-      ...vimeoHeaders(),
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      upload: { approach: "tus", size: args.size },
-      name: args.name,
-      privacy: { view: DEFAULT_PRIVACY },
-    }),
-  });
-
-  if (!resp.ok) {
-    const txt = await resp.text().catch(() => "");
-    throw new Error(`Vimeo create failed ${resp.status}: ${txt}`);
-  }
-
-  const created: any = await resp.json();
-  const upload_link: string | undefined = created?.upload?.upload_link;
-  const video_uri: string | undefined = created?.uri; // "/videos/123"
-  const video_id = (video_uri || "").split("/").pop();
-
-  if (!upload_link || !video_uri || !video_id) {
-    throw new Error("Vimeo response missing upload_link/video id");
-  }
-
-  return {
-    upload_link,
-    video_id,
-    video_uri,
-    video_url: `https://vimeo.com/${video_id}`,
-    privacy: DEFAULT_PRIVACY,
-  };
+  return getVimeoClient().createTusUpload(args);
+}
+
+export async function vimeoCreateUpload(
+  args: Parameters<VimeoClient["createUpload"]>[0]
+) {
+  return getVimeoClient().createUpload(args);
+}
+
+export async function vimeoSetTags(videoId: string, tags: string[]) {
+  return getVimeoClient().setTags(videoId, tags);
+}
+
+export async function vimeoAddEmbedDomain(videoId: string, domain: string) {
+  return getVimeoClient().addEmbedDomain(videoId, domain);
 }
 
 export async function vimeoAddToFolder(args: {
   folderId: string;
   videoId: string;
 }) {
-  const resp = await fetch(
-    `https://api.vimeo.com/me/folders/${args.folderId}/videos/${encodeURIComponent(args.videoId)}`,
-    { method: "PUT", headers: vimeoHeaders() }
-  );
-  return resp.ok;
+  return getVimeoClient().addToFolder(args);
 }
 
-/**
- * Delete a Vimeo video.
- * Returns status/body so callers can log/decide whether to mark deleted in Redis.
- * Treats 204 (deleted) and 404 (already gone) as success.
- */
 export async function vimeoDeleteVideo(videoId: string) {
-  const resp = await fetch(
-    `https://api.vimeo.com/videos/${encodeURIComponent(videoId)}`,
-    { method: "DELETE", headers: vimeoHeaders() }
-  );
+  return getVimeoClient().deleteVideo(videoId);
+}
+
+export async function vimeoGetVideoStatus(videoId: string) {
+  return getVimeoClient().getVideoStatus(videoId);
+}
 
-  const body = await resp.text().catch(() => "");
+export async function vimeoVerifyToken() {
+  return getVimeoClient().verifyToken();
+}
 
-  if (resp.status === 204 || resp.status === 404) {
-    return { ok: true, status: resp.status, body };
-  }
+export async function vimeoFolderExists(folderId: string) {
+  return getVimeoClient().folderExists(folderId);
+}
 
-  return { ok: false, status: resp.status, body };
+export async function vimeoTusHead(uploadLink: string) {
+  return getVimeoClient().tusHead(uploadLink);
 }
 
-/**
- * Debug helper: tells you which Vimeo user/account this token belongs to.
- * Safe to log status + a small snippet of body.
- */
-export async function vimeoWhoAmI() {
-  const resp = await fetch("https://api.vimeo.com/me", {
-    method: "GET",
-    headers: vimeoHeaders(),
-  });
-
-  const body = await resp.text().catch(() => "");
-  return { ok: resp.ok, status: resp.status, body };
+export async function vimeoTusPatch(
+  uploadLink: string,
+  args: Parameters<VimeoClient["tusPatch"]>[1]
+) {
+  return getVimeoClient().tusPatch(uploadLink, args);
 }
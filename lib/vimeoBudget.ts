@@ -0,0 +1,84 @@
+// lib/vimeoBudget.ts
+import crypto from "crypto";
+import { getKv, type KvStore } from "@/lib/store";
+
+// Vimeo rate-limits per account over a fixed window and reports where we stand
+// on every response (X-RateLimit-Limit / -Remaining / -Reset). Each instance
+// writes the latest numbers to the store, so all of them stop calling together
+// once the window is spent instead of each finding out from its own 429.
+//
+//   VIMEO_RATE_LIMIT_RESERVE  calls per window to leave unused (default 0)
+
+export type VimeoBudget = {
+  /** Seconds until calls may resume; null while there's budget left. */
+  check(account: string): Promise<number | null>;
+  /** Remembers the rate-limit headers of a response. */
+  record(account: string, resp: Response): Promise<void>;
+};
+
+type Snapshot = {
+  limit: number | null;
+  remaining: number;
+  reset_at: string;
+  seen_at: string;
+};
+
+function budgetKey(account: string) {
+  return `vimeo:ratelimit:${account}`;
+}
+
+/** Stable, non-reversible id for the account a token belongs to. */
+export function accountKey(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex").slice(0, 16);
+}
+
+function reserve() {
+  const n = Number(process.env.VIMEO_RATE_LIMIT_RESERVE);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+}
+
+function parseResetAt(resp: Response, now: number) {
+  const retryAfter = Number(resp.headers.get("retry-after"));
+  if (resp.status === 429 && Number.isFinite(retryAfter) && retryAfter > 0) {
+    return now + retryAfter * 1000;
+  }
+  const reset = Date.parse(resp.headers.get("x-ratelimit-reset") || "");
+  return Number.isFinite(reset) ? reset : null;
+}
+
+/** The budget every VimeoClient uses unless told otherwise. */
+export function storeBudget(kv: () => KvStore = getKv): VimeoBudget {
+  return {
+    async check(account) {
+      const snap = await kv().get<Snapshot>(budgetKey(account));
+      if (!snap) return null;
+      const wait = Date.parse(snap.reset_at) - Date.now();
+      if (snap.remaining > reserve() || !(wait > 0)) return null;
+      return Math.ceil(wait / 1000);
+    },
+
+    async record(account, resp) {
+      const now = Date.now();
+      const remainingHeader = resp.headers.get("x-ratelimit-remaining");
+      const throttled = resp.status === 429;
+      if (remainingHeader == null && !throttled) return;
+
+      const remaining = throttled ? 0 : Number(remainingHeader);
+      if (!Number.isFinite(remaining)) return;
+
+      const resetAt = parseResetAt(resp, now);
+      if (resetAt == null || resetAt <= now) return;
+
+      const limit = Number(resp.headers.get("x-ratelimit-limit"));
+      const snap: Snapshot = {
+        limit: Number.isFinite(limit) && limit > 0 ? limit : null,
+        remaining: Math.max(0, remaining),
+        reset_at: new Date(resetAt).toISOString(),
+        seen_at: new Date(now).toISOString(),
+      };
+      await kv().set(budgetKey(account), snap, {
+        ex: Math.ceil((resetAt - now) / 1000) + 5,
+      });
+    },
+  };
+}
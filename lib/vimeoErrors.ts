@@ -0,0 +1,130 @@
+// lib/vimeoErrors.ts
+
+// Typed failures from the Vimeo HTTP layer (lib/vimeo.ts), so routes can
+// answer with a status that says whose fault it was instead of a blanket 500.
+
+export class VimeoError extends Error {
+  /** Stable machine-readable code for JSON error bodies. */
+  readonly code: string = "vimeo_error";
+
+  constructor(
+    message: string,
+    /** Vimeo's HTTP status; null when no response came back. */
+    readonly status: number | null = null,
+    readonly body: string = ""
+  ) {
+    super(message);
+    this.name = "VimeoError";
+  }
+}
+
+/** Our token was rejected or lacks a scope (401/403). */
+export class VimeoAuthError extends VimeoError {
+  readonly code = "vimeo_auth_failed";
+
+  constructor(message: string, status: number | null, body = "") {
+    super(message, status, body);
+    this.name = "VimeoAuthError";
+  }
+}
+
+export class VimeoNotFoundError extends VimeoError {
+  readonly code = "vimeo_not_found";
+
+  constructor(message: string, body = "") {
+    super(message, 404, body);
+    this.name = "VimeoNotFoundError";
+  }
+}
+
+/** Vimeo said 429, or our shared budget says the next call would be refused. */
+export class VimeoRateLimitError extends VimeoError {
+  readonly code = "vimeo_rate_limited";
+
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number | null,
+    status: number | null = 429,
+    body = ""
+  ) {
+    super(message, status, body);
+    this.name = "VimeoRateLimitError";
+  }
+}
+
+export class VimeoTimeoutError extends VimeoError {
+  readonly code = "vimeo_timeout";
+
+  constructor(message: string) {
+    super(message, null);
+    this.name = "VimeoTimeoutError";
+  }
+}
+
+/** 5xx, or the connection failed before a response arrived. */
+export class VimeoUnavailableError extends VimeoError {
+  readonly code = "vimeo_unavailable";
+
+  constructor(message: string, status: number | null, body = "") {
+    super(message, status, body);
+    this.name = "VimeoUnavailableError";
+  }
+}
+
+/** Any other 4xx: Vimeo didn't like the request itself. */
+export class VimeoRequestError extends VimeoError {
+  readonly code = "vimeo_request_rejected";
+
+  constructor(message: string, status: number, body = "") {
+    super(message, status, body);
+    this.name = "VimeoRequestError";
+  }
+}
+
+/** Builds the typed error for a non-2xx response. */
+export function vimeoErrorFor(
+  what: string,
+  status: number,
+  body: string,
+  retryAfterSeconds: number | null = null
+): VimeoError {
+  const message = `Vimeo ${what} failed ${status}: ${body}`;
+  switch (true) {
+    case status === 401 || status === 403:
+      return new VimeoAuthError(message, status, body);
+    case status === 404:
+      return new VimeoNotFoundError(message, body);
+    case status === 429:
+      return new VimeoRateLimitError(message, retryAfterSeconds, status, body);
+    case status >= 500:
+      return new VimeoUnavailableError(message, status, body);
+    default:
+      return new VimeoRequestError(message, status, body);
+  }
+}
+
+/**
+ * Status our routes answer with when a Vimeo call fails. Auth problems are
+ * ours, not the caller's, so they surface as a bad gateway rather than 401.
+ */
+export function httpStatusForVimeoError(err: VimeoError) {
+  if (err instanceof VimeoRateLimitError) return 503;
+  if (err instanceof VimeoTimeoutError) return 504;
+  if (err instanceof VimeoNotFoundError) return 404;
+  return 502;
+}
+
+/** JSON body + status (+ Retry-After) for a failed Vimeo call; null for non-Vimeo errors. */
+export function vimeoErrorResponse(err: unknown) {
+  if (!(err instanceof VimeoError)) return null;
+
+  const headers: Record<string, string> = {};
+  if (err instanceof VimeoRateLimitError && err.retryAfterSeconds != null) {
+    headers["Retry-After"] = String(err.retryAfterSeconds);
+  }
+  return {
+    status: httpStatusForVimeoError(err),
+    headers,
+    body: { error: err.code, details: err.message },
+  };
+}
@@ -0,0 +1,71 @@
+// lib/vimeoWebhook.ts
+import crypto from "crypto";
+
+export type VimeoWebhookEventType = "video.available" | "video.transcode_failed" | "video.deleted";
+
+export type VimeoWebhookEvent = {
+  type: VimeoWebhookEventType;
+  video_id: string;
+  /** Raw event name as sent, for logging. */
+  raw_type: string;
+};
+
+// Vimeo and our relays haven't always agreed on spelling; map them all to one name
+const EVENT_ALIASES: Record<string, VimeoWebhookEventType> = {
+  "video.available": "video.available",
+  "video.transcode.complete": "video.available",
+  "video.transcode_failed": "video.transcode_failed",
+  "video.transcode.failed": "video.transcode_failed",
+  "video.transcode.error": "video.transcode_failed",
+  "video.deleted": "video.deleted",
+  "video.delete": "video.deleted",
+};
+
+/**
+ * Checks `sha256=<hex>` (or bare hex) HMAC-SHA256 of the raw body against the shared secret.
+ * Uses a constant-time compare; any malformed header is simply "not valid".
+ */
+export function verifyWebhookSignature(rawBody: string, header: string | null, secret: string) {
+  if (!header || !secret) return false;
+
+  const given = header.trim().replace(/^sha256=/i, "");
+  if (!/^[0-9a-f]+$/i.test(given)) return false;
+
+  const expected = crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+  const a = Buffer.from(given.toLowerCase(), "hex");
+  const b = Buffer.from(expected, "hex");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function videoIdFrom(value: unknown) {
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string" || !value) return null;
+  // "/videos/123", "https://api.vimeo.com/videos/123" or just "123"
+  const id = value.split("/").filter(Boolean).pop();
+  return id && /^\d+$/.test(id) ? id : null;
+}
+
+/**
+ * Normalizes a webhook body into { type, video_id }.
+ * Returns null for events we don't handle or bodies without a video reference.
+ */
+export function parseWebhookEvent(body: unknown): VimeoWebhookEvent | null {
+  if (!body || typeof body !== "object") return null;
+  const b = body as Record<string, unknown>;
+  const data = (b.data && typeof b.data === "object" ? b.data : {}) as Record<string, unknown>;
+  const video = (b.video ?? b.clip ?? data.video ?? {}) as Record<string, unknown>;
+
+  const raw_type = String(b.type ?? b.event ?? b.event_type ?? "");
+  const type = EVENT_ALIASES[raw_type.toLowerCase()];
+  if (!type) return null;
+
+  const video_id =
+    videoIdFrom(data.video_id) ??
+    videoIdFrom(b.video_id) ??
+    videoIdFrom(video.uri) ??
+    videoIdFrom(data.uri) ??
+    videoIdFrom(b.uri);
+  if (!video_id) return null;
+
+  return { type, video_id, raw_type };
+}
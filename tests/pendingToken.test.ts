@@ -0,0 +1,42 @@
+// tests/pendingToken.test.ts
+import { beforeAll, describe, expect, it } from "vitest";
+import { mintPendingToken, verifyPendingToken } from "@/lib/pendingToken";
+
+beforeAll(() => {
+  process.env.PENDING_TOKEN_SECRET = "test-secret";
+});
+
+describe("origin pin", () => {
+  const origin = "https://app.example.com";
+
+  it("accepts the origin the token was minted for", () => {
+    const token = mintPendingToken({ video_id: "1", origin });
+    expect(verifyPendingToken(token, { origin }).ok).toBe(true);
+  });
+
+  it("rejects another origin", () => {
+    const token = mintPendingToken({ video_id: "1", origin });
+    expect(
+      verifyPendingToken(token, { origin: "https://evil.example.com" })
+    ).toEqual({ ok: false, reason: "origin_mismatch" });
+  });
+
+  it("rejects a request without an Origin when the token has one", () => {
+    const token = mintPendingToken({ video_id: "1", origin });
+    expect(verifyPendingToken(token, { origin: null })).toEqual({
+      ok: false,
+      reason: "origin_mismatch",
+    });
+  });
+
+  it("doesn't pin tokens minted without an Origin", () => {
+    const token = mintPendingToken({ video_id: "1" });
+    expect(verifyPendingToken(token, { origin: null }).ok).toBe(true);
+    expect(verifyPendingToken(token, { origin }).ok).toBe(true);
+  });
+
+  it("leaves the origin alone when the caller doesn't ask", () => {
+    const token = mintPendingToken({ video_id: "1", origin });
+    expect(verifyPendingToken(token).ok).toBe(true);
+  });
+});
@@ -0,0 +1,25 @@
+// tests/rateLimit.test.ts
+import { describe, expect, it } from "vitest";
+import { clientKeyFor } from "@/lib/rateLimit";
+
+function request(headers: Record<string, string>) {
+  return new Request("http://localhost/api/vimeo/create-upload", { headers });
+}
+
+describe("clientKeyFor", () => {
+  it("ignores Origin, which any script can set", () => {
+    const ip = { "x-forwarded-for": "203.0.113.7" };
+    expect(
+      clientKeyFor(request({ ...ip, origin: "https://a.example.com" }))
+    ).toBe(clientKeyFor(request({ ...ip, origin: "https://b.example.com" })));
+    expect(clientKeyFor(request(ip))).toBe(
+      clientKeyFor(request({ ...ip, origin: "https://a.example.com" }))
+    );
+  });
+
+  it("tells IPs apart", () => {
+    expect(
+      clientKeyFor(request({ "x-forwarded-for": "203.0.113.7" }))
+    ).not.toBe(clientKeyFor(request({ "x-forwarded-for": "203.0.113.8" })));
+  });
+});
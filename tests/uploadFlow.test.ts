@@ -0,0 +1,111 @@
+// tests/uploadFlow.test.ts
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  startFakeVimeoServer,
+  type FakeVimeoServer,
+} from "@/lib/testing/fakeVimeoServer";
+
+// create-upload -> confirm-upload -> cleanup through the real route handlers,
+// with the memory store and the fake Vimeo server standing in for api.vimeo.com
+
+let fake: FakeVimeoServer;
+let createUpload: typeof import("@/app/api/vimeo/create-upload/route");
+let confirmUpload: typeof import("@/app/api/vimeo/confirm-upload/route");
+let cleanup: typeof import("@/app/api/vimeo/cleanup/route");
+
+function request(path: string, body?: unknown) {
+  return new Request(`http://localhost${path}`, {
+    method: body === undefined ? "GET" : "POST",
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: { "content-type": "application/json" },
+  });
+}
+
+async function create(name: string) {
+  const res = await createUpload.POST(
+    request("/api/vimeo/create-upload", { size: 10, name })
+  );
+  expect(res.status).toBe(200);
+  return (await res.json()) as { video_id: string; pending_token: string };
+}
+
+beforeAll(async () => {
+  fake = await startFakeVimeoServer({ folders: ["9"] });
+  // route modules read their config at import time
+  process.env.VIMEO_API_BASE_URL = fake.url;
+  process.env.VIMEO_TOKEN = "test-token";
+  process.env.VIMEO_FOLDER_ID = "9";
+  process.env.PENDING_TOKEN_SECRET = "test-secret";
+  process.env.UPLOAD_STORE = "memory";
+  process.env.LOG_LEVEL = "error";
+  delete process.env.CRON_SECRET;
+  createUpload = await import("@/app/api/vimeo/create-upload/route");
+  confirmUpload = await import("@/app/api/vimeo/confirm-upload/route");
+  cleanup = await import("@/app/api/vimeo/cleanup/route");
+});
+
+afterAll(async () => {
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.requests.length = 0;
+});
+
+describe("upload flow", () => {
+  it("creates a video in the profile's folder", async () => {
+    const created = await create("in-folder");
+
+    const video = fake.videos.get(created.video_id);
+    expect(video?.name).toBe("in-folder");
+    expect(video?.folder_id).toBe("9");
+  });
+
+  it("keeps confirmed uploads and cleans up abandoned ones", async () => {
+    const kept = await create("kept");
+    const abandoned = await create("abandoned");
+
+    const confirmed = await confirmUpload.POST(
+      request("/api/vimeo/confirm-upload", {
+        pending_token: kept.pending_token,
+        video_id: kept.video_id,
+      })
+    );
+    expect(confirmed.status).toBe(200);
+
+    // cleanup only touches pending uploads older than `minutes`
+    await new Promise((r) => setTimeout(r, 700));
+    const swept = await cleanup.GET(request("/api/vimeo/cleanup?minutes=0.01"));
+    expect(swept.status).toBe(200);
+
+    expect(fake.videos.has(kept.video_id)).toBe(true);
+    expect(fake.videos.has(abandoned.video_id)).toBe(false);
+  });
+
+  it("rejects a confirm for a different video", async () => {
+    const a = await create("a");
+    const b = await create("b");
+
+    const res = await confirmUpload.POST(
+      request("/api/vimeo/confirm-upload", {
+        pending_token: a.pending_token,
+        video_id: b.video_id,
+      })
+    );
+    expect(res.status).toBeGreaterThanOrEqual(400);
+    expect(res.status).toBeLessThan(500);
+  });
+
+  it("still creates the upload when the folder add fails", async () => {
+    fake.failNext("PUT", "/me/folders/", 403);
+    const res = await createUpload.POST(
+      request("/api/vimeo/create-upload", { size: 10, name: "no-folder" })
+    );
+    expect(res.status).toBe(200);
+    const created = await res.json();
+
+    // setup is best-effort: the video stays and the response flags it
+    expect(created.folder_add_ok).toBe(false);
+    expect(fake.videos.get(created.video_id)?.folder_id).toBeNull();
+  });
+});